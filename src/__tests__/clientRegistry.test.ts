@@ -0,0 +1,58 @@
+import { ClientRegistry } from '../clientRegistry.js';
+import { ToolHandler } from '../toolHandler.js';
+import { jest } from '@jest/globals';
+
+// Mock tool handler
+const mockClose = jest.fn().mockImplementation(() => Promise.resolve());
+const mockToolHandler = {
+  close: mockClose
+} as unknown as ToolHandler;
+
+describe('ClientRegistry', () => {
+  let clients: ClientRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    clients = new ClientRegistry(mockToolHandler);
+  });
+
+  test('should give every client its own identity', () => {
+    const first = clients.register();
+    const second = clients.register();
+
+    expect(first.id).not.toEqual(second.id);
+    expect(clients.has(first.id)).toBe(true);
+    expect(clients.has(second.id)).toBe(true);
+    expect(clients.size).toBe(2);
+  });
+
+  test('should only close the session of the released client', async () => {
+    const first = clients.register();
+    const second = clients.register();
+
+    await clients.release(first.id);
+
+    expect(mockClose).toHaveBeenCalledTimes(1);
+    expect(mockClose).toHaveBeenCalledWith(first.id);
+    expect(clients.has(first.id)).toBe(false);
+    expect(clients.has(second.id)).toBe(true);
+  });
+
+  test('should ignore releasing an unknown client', async () => {
+    await clients.release('unknown');
+
+    expect(mockClose).not.toHaveBeenCalled();
+  });
+
+  test('should release every client on shutdown', async () => {
+    const first = clients.register();
+    const second = clients.register();
+
+    await clients.releaseAll();
+
+    expect(mockClose).toHaveBeenCalledWith(first.id);
+    expect(mockClose).toHaveBeenCalledWith(second.id);
+    expect(clients.size).toBe(0);
+  });
+});
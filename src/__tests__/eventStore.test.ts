@@ -0,0 +1,44 @@
+import { InMemoryEventStore } from '../eventStore.js';
+import { jest } from '@jest/globals';
+
+const message = (id: number) => ({ jsonrpc: '2.0' as const, method: 'notifications/message', params: { id } });
+
+describe('InMemoryEventStore', () => {
+  test('should replay events of the same stream after the last event id', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('stream-b', message(2));
+    const third = await store.storeEvent('stream-a', message(3));
+
+    const send = jest.fn<(eventId: string, message: unknown) => Promise<void>>().mockImplementation(() => Promise.resolve());
+    const streamId = await store.replayEventsAfter(first, { send });
+
+    expect(streamId).toBe('stream-a');
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith(third, message(3));
+  });
+
+  test('should not replay anything for an unknown event id', async () => {
+    const store = new InMemoryEventStore();
+    await store.storeEvent('stream-a', message(1));
+
+    const send = jest.fn<(eventId: string, message: unknown) => Promise<void>>().mockImplementation(() => Promise.resolve());
+    const streamId = await store.replayEventsAfter('unknown', { send });
+
+    expect(streamId).toBe('');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  test('should drop the oldest events once full', async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('stream-a', message(2));
+    await store.storeEvent('stream-a', message(3));
+
+    const send = jest.fn<(eventId: string, message: unknown) => Promise<void>>().mockImplementation(() => Promise.resolve());
+    const streamId = await store.replayEventsAfter(first, { send });
+
+    expect(streamId).toBe('');
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { createReadinessCheck, probeBrowser } from '../health.js';
+import { chromium, firefox } from 'playwright';
+import { jest } from '@jest/globals';
+
+jest.mock('playwright', () => {
+  const browserType = () => {
+    const browser = { close: jest.fn(async () => {}) };
+    return {
+      launch: jest.fn(async () => browser),
+      connect: jest.fn(async () => browser),
+      connectOverCDP: jest.fn(async () => browser)
+    };
+  };
+  return { chromium: browserType(), firefox: browserType(), webkit: browserType() };
+});
+
+describe('createReadinessCheck', () => {
+  test('should report ready when the probe succeeds', async () => {
+    const probe = jest.fn<() => Promise<void>>().mockImplementation(() => Promise.resolve());
+    const checkReadiness = createReadinessCheck(probe);
+
+    const result = await checkReadiness();
+
+    expect(result.ready).toBe(true);
+    expect(result.error).toBeUndefined();
+  });
+
+  test('should report the probe error when it fails', async () => {
+    const probe = jest.fn<() => Promise<void>>().mockImplementation(() => Promise.reject(new Error('Executable not found')));
+    const checkReadiness = createReadinessCheck(probe);
+
+    const result = await checkReadiness();
+
+    expect(result.ready).toBe(false);
+    expect(result.error).toBe('Executable not found');
+  });
+
+  test('should reuse the last result within the cache period', async () => {
+    const probe = jest.fn<() => Promise<void>>().mockImplementation(() => Promise.resolve());
+    const checkReadiness = createReadinessCheck(probe, 60000);
+
+    await checkReadiness();
+    await checkReadiness();
+
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+
+  test('should share a single probe between concurrent checks', async () => {
+    const probe = jest.fn<() => Promise<void>>().mockImplementation(() => Promise.resolve());
+    const checkReadiness = createReadinessCheck(probe, 0);
+
+    await Promise.all([checkReadiness(), checkReadiness()]);
+
+    expect(probe).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('probeBrowser', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should launch the configured browser type with its launch options', async () => {
+    await probeBrowser({
+      browserType: 'firefox',
+      headless: false,
+      launchOptions: { args: ['--mute-audio'], userDataDir: '/tmp/profile' }
+    });
+
+    expect(firefox.launch).toHaveBeenCalledWith({ args: ['--mute-audio'], headless: true });
+    expect(chromium.launch).not.toHaveBeenCalled();
+    const browser = await (firefox.launch as jest.Mock<any>).mock.results[0].value;
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  test('should connect to a CDP endpoint instead of launching', async () => {
+    await probeBrowser({ cdpEndpoint: 'http://localhost:9222' });
+
+    expect(chromium.connectOverCDP).toHaveBeenCalledWith('http://localhost:9222');
+    expect(chromium.launch).not.toHaveBeenCalled();
+  });
+
+  test('should connect to a browser server endpoint instead of launching', async () => {
+    await probeBrowser({ browserType: 'firefox', wsEndpoint: 'ws://localhost:3000/firefox' });
+
+    expect(firefox.connect).toHaveBeenCalledWith('ws://localhost:3000/firefox');
+    expect(firefox.launch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,438 @@
+import http from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { FastMCPSession } from 'fastmcp';
+import { ClientRegistry, type ClientSession } from '../clientRegistry.js';
+import { startHttpServer, type HttpServer, type HttpServerOptions } from '../httpServer.js';
+import { ToolHandler } from '../toolHandler.js';
+import type { ReadinessResult } from '../health.js';
+import { jest } from '@jest/globals';
+
+// Mock tool handler
+const mockClose = jest.fn().mockImplementation(() => Promise.resolve());
+const mockToolHandler = {
+  close: mockClose
+} as unknown as ToolHandler;
+
+const mockCheckReadiness = jest.fn<() => Promise<ReadinessResult>>();
+
+// FastMCP ships as ESM only, so sessions are backed by a plain MCP server
+function createSession(): FastMCPSession<ClientSession> {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+  return {
+    server,
+    connect: (transport: Transport) => server.connect(transport),
+    close: () => server.close()
+  } as unknown as FastMCPSession<ClientSession>;
+}
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+type SseEvent = { event?: string; id?: string; data: string };
+
+/**
+ * Reads server-sent events from a response until the given number arrived
+ */
+async function readEvents(response: Response, count: number): Promise<SseEvent[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const events: SseEvent[] = [];
+  let buffer = '';
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let end;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const event: SseEvent = { data: '' };
+      for (const line of buffer.slice(0, end).split('\n')) {
+        const [field, ...rest] = line.split(': ');
+        if (field === 'event' || field === 'id' || field === 'data') {
+          event[field] = rest.join(': ');
+        }
+      }
+      events.push(event);
+      buffer = buffer.slice(end + 2);
+    }
+  }
+
+  await reader.cancel();
+  return events;
+}
+
+describe('startHttpServer', () => {
+  let clients: ClientRegistry;
+  let server: HttpServer;
+  let baseUrl: string;
+
+  async function start(options: Partial<HttpServerOptions> = {}) {
+    server = await startHttpServer({
+      port: 0,
+      clients,
+      createSession,
+      idleTimeout: 60000,
+      checkReadiness: mockCheckReadiness,
+      renderMetrics: () => 'mcp_tool_calls_total 0\n',
+      allowedOrigins: [],
+      allowedHosts: [],
+      ...options
+    });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  }
+
+  async function initializeStreamable() {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify(initializeRequest)
+    });
+    const sessionId = response.headers.get('mcp-session-id')!;
+    const [event] = await readEvents(response, 1);
+    return { response, sessionId, event };
+  }
+
+  /**
+   * Sends a GET request with the given headers, which unlike fetch may set Host
+   */
+  function request(path: string, headers: http.OutgoingHttpHeaders): Promise<{ status: number }> {
+    return new Promise((resolve, reject) => {
+      const req = http.get({ host: '127.0.0.1', port: server.port, path, headers }, (res) => {
+        res.destroy();
+        resolve({ status: res.statusCode! });
+      });
+      req.on('error', reject);
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    clients = new ClientRegistry(mockToolHandler);
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should answer ping and health checks', async () => {
+    await start();
+
+    const ping = await fetch(`${baseUrl}/ping`);
+    expect(ping.status).toBe(200);
+    expect(await ping.text()).toBe('pong');
+
+    const health = await fetch(`${baseUrl}/health`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: 'ok' });
+  });
+
+  test('should report readiness from the browser check', async () => {
+    await start();
+
+    mockCheckReadiness.mockResolvedValueOnce({ ready: true, checkedAt: Date.now() });
+    const ready = await fetch(`${baseUrl}/ready`);
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: 'ready' });
+
+    mockCheckReadiness.mockResolvedValueOnce({ ready: false, error: 'Executable not found', checkedAt: Date.now() });
+    const unavailable = await fetch(`${baseUrl}/ready`);
+    expect(unavailable.status).toBe(503);
+    expect(await unavailable.json()).toEqual({ status: 'unavailable', error: 'Executable not found' });
+  });
+
+  test('should serve metrics in the Prometheus text format', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(await response.text()).toBe('mcp_tool_calls_total 0\n');
+  });
+
+  test('should answer unknown paths with 404', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/unknown`);
+
+    expect(response.status).toBe(404);
+  });
+
+  test('should dispatch SSE messages to the session of the connection', async () => {
+    await start();
+
+    const stream = await fetch(`${baseUrl}/sse`);
+    const reader = stream.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (!buffer.includes('\n\n')) {
+      buffer += decoder.decode((await reader.read()).value, { stream: true });
+    }
+    expect(buffer).toContain('event: endpoint');
+    const endpoint = buffer.match(/data: (\S+)/)![1];
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+    expect(clients.size).toBe(1);
+
+    const posted = await fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(initializeRequest)
+    });
+    expect(posted.status).toBe(202);
+
+    buffer = buffer.slice(buffer.indexOf('\n\n') + 2);
+    while (!buffer.includes('\n\n')) {
+      buffer += decoder.decode((await reader.read()).value, { stream: true });
+    }
+    const message = JSON.parse(buffer.match(/data: (.+)/)![1]);
+    expect(message.id).toBe(1);
+    expect(message.result.serverInfo.name).toBe('test');
+
+    await reader.cancel();
+  });
+
+  test('should reject SSE messages for unknown sessions', async () => {
+    await start();
+
+    const missing = await fetch(`${baseUrl}/messages`, { method: 'POST', body: '{}' });
+    expect(missing.status).toBe(400);
+
+    const unknown = await fetch(`${baseUrl}/messages?sessionId=unknown`, { method: 'POST', body: '{}' });
+    expect(unknown.status).toBe(400);
+  });
+
+  test('should create a streamable HTTP session on initialize', async () => {
+    await start();
+
+    const { response, sessionId, event } = await initializeStreamable();
+
+    expect(response.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(clients.has(sessionId)).toBe(true);
+    expect(JSON.parse(event.data).result.serverInfo.name).toBe('test');
+  });
+
+  test('should reject streamable HTTP requests without a known session', async () => {
+    await start();
+
+    const withoutSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' })
+    });
+    expect(withoutSession.status).toBe(400);
+
+    const unknownSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'unknown'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' })
+    });
+    expect(unknownSession.status).toBe(404);
+  });
+
+  test('should answer invalid JSON with a parse error', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{'
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  test('should reject request bodies over 4 MB', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ ...initializeRequest, padding: 'x'.repeat(4 * 1024 * 1024) })
+    });
+
+    expect(response.status).toBe(413);
+    expect(clients.size).toBe(0);
+  });
+
+  test('should stop reading chunked request bodies over 4 MB', async () => {
+    await start();
+
+    const status = await new Promise<number>((resolve, reject) => {
+      const req = http.request(
+        { host: '127.0.0.1', port: server.port, path: '/mcp', method: 'POST' },
+        (res) => {
+          req.destroy();
+          resolve(res.statusCode!);
+        }
+      );
+      req.on('error', reject);
+      // Without a Content-Length header the size is only known while reading
+      req.write(Buffer.alloc(3 * 1024 * 1024, ' '));
+      req.write(Buffer.alloc(2 * 1024 * 1024, ' '));
+    });
+
+    expect(status).toBe(413);
+  });
+
+  test('should replay missed events from the event store on resume', async () => {
+    await start();
+    const { sessionId } = await initializeStreamable();
+    const headers = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'Mcp-Session-Id': sessionId
+    };
+
+    // Both responses of a batch go out on the same stream
+    const batch = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify([
+        { jsonrpc: '2.0', id: 2, method: 'ping' },
+        { jsonrpc: '2.0', id: 3, method: 'ping' }
+      ])
+    });
+    const [first, second] = await readEvents(batch, 2);
+    expect(first.id).toBeTruthy();
+
+    const resumed = await fetch(`${baseUrl}/mcp`, {
+      headers: { ...headers, 'Last-Event-ID': first.id! }
+    });
+    const [replayed] = await readEvents(resumed, 1);
+
+    expect(resumed.status).toBe(200);
+    expect(replayed.id).toBe(second.id);
+    expect(JSON.parse(replayed.data).id).toBe(JSON.parse(second.data).id);
+  });
+
+  test('should close the session and its browser on DELETE', async () => {
+    await start();
+    const { sessionId } = await initializeStreamable();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId }
+    });
+
+    expect(response.status).toBe(200);
+    expect(clients.has(sessionId)).toBe(false);
+    expect(mockClose).toHaveBeenCalledWith(sessionId);
+
+    const resumed = await fetch(`${baseUrl}/mcp`, {
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }
+    });
+    expect(resumed.status).toBe(404);
+  });
+
+  test('should allow localhost origins by default', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Origin: 'http://localhost:8080'
+      },
+      body: JSON.stringify(initializeRequest)
+    });
+    await readEvents(response, 1);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('http://localhost:8080');
+  });
+
+  test('should reject origins that are not allowed', async () => {
+    await start();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Origin: 'https://evil.example'
+      },
+      body: JSON.stringify(initializeRequest)
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    expect(clients.size).toBe(0);
+  });
+
+  test('should only allow configured origins when some are set', async () => {
+    await start({ allowedOrigins: ['https://app.example.com'] });
+
+    const allowed = await fetch(`${baseUrl}/sse`, { headers: { Origin: 'https://app.example.com' } });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    await allowed.body!.cancel();
+
+    const localhost = await fetch(`${baseUrl}/sse`, { headers: { Origin: 'http://localhost:8080' } });
+    expect(localhost.status).toBe(403);
+  });
+
+  test('should reject hosts that are not allowed on MCP endpoints', async () => {
+    await start();
+
+    const rebound = await request('/mcp', { host: `attacker.example:${server.port}` });
+    expect(rebound.status).toBe(403);
+
+    // Probes often address the server by IP or service name
+    const health = await request('/health', { host: `mcp-playwright:${server.port}` });
+    expect(health.status).toBe(200);
+  });
+
+  test('should accept configured hosts', async () => {
+    await start({ allowedHosts: ['mcp.internal'] });
+
+    const configured = await request('/sse', { host: `mcp.internal:${server.port}` });
+    expect(configured.status).toBe(200);
+
+    const localhost = await request('/sse', { host: `localhost:${server.port}` });
+    expect(localhost.status).toBe(403);
+  });
+
+  test('should reject when the port is already in use', async () => {
+    await start();
+
+    await expect(start({ port: server.port })).rejects.toThrow(/EADDRINUSE/);
+  });
+
+  test('should close streamable HTTP sessions that went idle', async () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+    await start({ idleTimeout: 1000 });
+    const sweep = setIntervalSpy.mock.calls[0][0] as () => void;
+    const active = await initializeStreamable();
+
+    // Sessions within the timeout survive the sweep
+    sweep();
+    expect(clients.has(active.sessionId)).toBe(true);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+    sweep();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(clients.has(active.sessionId)).toBe(false);
+    expect(mockClose).toHaveBeenCalledWith(active.sessionId);
+  });
+});
@@ -0,0 +1,57 @@
+import { Metrics } from '../metrics.js';
+
+describe('Metrics', () => {
+  let metrics: Metrics;
+
+  beforeEach(() => {
+    metrics = new Metrics();
+  });
+
+  test('should render gauges', () => {
+    const output = metrics.render({ activeSessions: 3, connectedClients: 2 });
+
+    expect(output).toContain('# TYPE playwright_mcp_active_sessions gauge');
+    expect(output).toContain('playwright_mcp_active_sessions 3');
+    expect(output).toContain('playwright_mcp_connected_clients 2');
+  });
+
+  test('should count tool calls and errors per tool', () => {
+    metrics.recordToolCall('playwright_click', 0.2, false);
+    metrics.recordToolCall('playwright_click', 0.3, true);
+    metrics.recordToolCall('playwright_fill', 0.1, false);
+
+    const output = metrics.render({ activeSessions: 0, connectedClients: 0 });
+
+    expect(output).toContain('playwright_mcp_tool_calls_total{tool="playwright_click"} 2');
+    expect(output).toContain('playwright_mcp_tool_errors_total{tool="playwright_click"} 1');
+    expect(output).toContain('playwright_mcp_tool_calls_total{tool="playwright_fill"} 1');
+    expect(output).toContain('playwright_mcp_tool_errors_total{tool="playwright_fill"} 0');
+  });
+
+  test('should render cumulative latency buckets', () => {
+    metrics.recordToolCall('playwright_navigate', 0.2, false);
+    metrics.recordToolCall('playwright_navigate', 3, false);
+
+    const output = metrics.render({ activeSessions: 0, connectedClients: 0 });
+
+    expect(output).toContain('playwright_mcp_tool_call_duration_seconds_bucket{tool="playwright_navigate",le="0.1"} 0');
+    expect(output).toContain('playwright_mcp_tool_call_duration_seconds_bucket{tool="playwright_navigate",le="0.25"} 1');
+    expect(output).toContain('playwright_mcp_tool_call_duration_seconds_bucket{tool="playwright_navigate",le="5"} 2');
+    expect(output).toContain('playwright_mcp_tool_call_duration_seconds_bucket{tool="playwright_navigate",le="+Inf"} 2');
+    expect(output).toContain('playwright_mcp_tool_call_duration_seconds_sum{tool="playwright_navigate"} 3.2');
+    expect(output).toContain('playwright_mcp_tool_call_duration_seconds_count{tool="playwright_navigate"} 2');
+  });
+
+  test('should count browser launches and session evictions', () => {
+    metrics.recordBrowserLaunch('chromium');
+    metrics.recordBrowserLaunch('chromium');
+    metrics.recordBrowserLaunch('firefox');
+    metrics.recordSessionEviction();
+
+    const output = metrics.render({ activeSessions: 0, connectedClients: 0 });
+
+    expect(output).toContain('playwright_mcp_browser_launches_total{browser_type="chromium"} 2');
+    expect(output).toContain('playwright_mcp_browser_launches_total{browser_type="firefox"} 1');
+    expect(output).toContain('playwright_mcp_session_evictions_total 1');
+  });
+});
@@ -0,0 +1,57 @@
+import fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { BrowserContext } from 'playwright';
+import { ProfileStore } from '../profiles.js';
+
+const storageState = {
+  cookies: [{ name: 'sid', value: 'abc', domain: 'shop.test', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' }],
+  origins: [{ origin: 'https://shop.test', localStorage: [{ name: 'cart', value: '3' }] }]
+};
+
+const browserContext = {
+  storageState: async () => storageState
+} as unknown as BrowserContext;
+
+describe('ProfileStore', () => {
+  let tmpDir: string;
+  let store: ProfileStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-profiles-'));
+    store = new ProfileStore(path.join(tmpDir, 'profiles'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should list no profiles before the directory exists', async () => {
+    expect(await store.list()).toEqual([]);
+  });
+
+  test('should save, list and read a profile', async () => {
+    const saved = await store.save('buyer', browserContext);
+
+    expect(saved).toEqual({ path: path.join(tmpDir, 'profiles', 'buyer.json'), cookies: 1, origins: 1 });
+    expect((await store.list()).map((profile) => profile.name)).toEqual(['buyer']);
+    expect(JSON.parse(await store.read('buyer'))).toEqual(storageState);
+    expect(await store.resolve('buyer')).toBe(saved.path);
+  });
+
+  test('should ignore files that are not profiles', async () => {
+    await store.save('seller', browserContext);
+    fs.writeFileSync(path.join(tmpDir, 'profiles', 'notes.txt'), '');
+
+    expect((await store.list()).map((profile) => profile.name)).toEqual(['seller']);
+  });
+
+  test('should reject names that could escape the directory', () => {
+    expect(() => store.pathOf('../secrets')).toThrow('Invalid profile name');
+    expect(() => store.pathOf('a/b')).toThrow('Invalid profile name');
+  });
+
+  test('should report a missing profile', async () => {
+    await expect(store.resolve('admin')).rejects.toThrow('Profile not found: admin');
+  });
+});
@@ -0,0 +1,527 @@
+import { EventEmitter } from 'events';
+import { SessionManager } from '../sessionManager.js';
+import { chromium } from 'playwright';
+import { jest } from '@jest/globals';
+
+/**
+ * Minimal page and context fakes that emit the events the session manager listens to
+ */
+class FakePage extends EventEmitter {
+  closed = false;
+  currentUrl = 'about:blank';
+  constructor(private fakeContext: FakeContext) {
+    super();
+  }
+  context() {
+    return this.fakeContext;
+  }
+  url() {
+    return this.currentUrl;
+  }
+  async goto(url: string) {
+    this.currentUrl = url;
+  }
+  isClosed() {
+    return this.closed;
+  }
+  async bringToFront() {}
+  async waitForLoadState() {}
+  async close() {
+    this.closed = true;
+    this.emit('close', this);
+  }
+}
+
+class FakeContext extends EventEmitter {
+  openPages: FakePage[] = [];
+  constructor(public options: unknown = {}) {
+    super();
+  }
+  pages() {
+    return [...this.openPages];
+  }
+  async newPage() {
+    const page = new FakePage(this);
+    this.openPages.push(page);
+    this.emit('page', page);
+    return page;
+  }
+  openPopup(opener: FakePage) {
+    const popup = new FakePage(this);
+    this.openPages.push(popup);
+    this.emit('page', popup);
+    opener.emit('popup', popup);
+    return popup;
+  }
+  async storageState() {
+    return { cookies: [{ name: 'sid', value: '1' }], origins: [] };
+  }
+  async close() {
+    for (const page of this.openPages) {
+      await page.close();
+    }
+  }
+}
+
+function createFakeBrowser(contexts: FakeContext[] = []) {
+  return {
+    newContext: async (options: unknown) => new FakeContext(options),
+    contexts: () => contexts,
+    on: () => {},
+    isConnected: () => true,
+    close: jest.fn(async () => {})
+  };
+}
+
+jest.mock('playwright', () => {
+  const launch = jest.fn(async () => createFakeBrowser());
+  const connect = jest.fn(async () => createFakeBrowser());
+  const connectOverCDP = jest.fn(async () => createFakeBrowser());
+  const launchPersistentContext = jest.fn(async (userDataDir: string, options: unknown) => {
+    const context = new FakeContext(options);
+    const browser = createFakeBrowser([context]);
+    return Object.assign(context, { browser: () => browser });
+  });
+  const devices = {
+    'Test Phone': {
+      userAgent: 'TestPhone/1.0',
+      viewport: { width: 390, height: 664 },
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: true,
+      defaultBrowserType: 'webkit'
+    }
+  };
+  return {
+    devices,
+    chromium: { launch, connect, connectOverCDP, launchPersistentContext },
+    firefox: { launch, connect },
+    webkit: { launch, connect }
+  };
+});
+
+describe('SessionManager tabs', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    sessionManager = new SessionManager();
+  });
+
+  afterEach(async () => {
+    await sessionManager.closeAllSessions();
+  });
+
+  test('should open and switch tabs', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const first = session.page;
+
+    const second = await sessionManager.openTab('s1');
+    expect(session.page).toBe(second);
+    expect(sessionManager.getTabs('s1')).toEqual({ pages: [first, second], activeIndex: 1 });
+
+    await sessionManager.selectTab('s1', 0);
+    expect(session.page).toBe(first);
+    await expect(sessionManager.selectTab('s1', 4)).rejects.toThrow('No tab at index 4');
+  });
+
+  test('should fall back to the latest remaining tab when the active tab closes', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const first = session.page;
+    await sessionManager.openTab('s1');
+
+    await sessionManager.closeTab('s1');
+
+    expect(session.page).toBe(first);
+    expect(sessionManager.getTabs('s1').pages).toEqual([first]);
+  });
+
+  test('should use another open tab when the active one closed before its close event', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const first = session.page;
+    const second = await sessionManager.openTab('s1') as unknown as FakePage;
+    second.closed = true;
+
+    await sessionManager.getOrCreateSession('s1');
+
+    expect(session.page).toBe(first);
+    expect(session.browser.isConnected()).toBe(true);
+  });
+
+  test('should track popups and emit pageCreated once per page', async () => {
+    const pageCreated = jest.fn();
+    sessionManager.on('pageCreated', pageCreated);
+    const session = await sessionManager.getOrCreateSession('s1');
+    const opener = session.page as unknown as FakePage;
+
+    const popup = opener.context().openPopup(opener);
+
+    expect(pageCreated).toHaveBeenCalledTimes(2);
+    expect(sessionManager.getTabs('s1').pages).toContain(popup);
+
+    const claimed = await sessionManager.waitForPopup('s1', 1000, true);
+    expect(claimed).toBe(popup);
+    expect(session.page).toBe(popup);
+  });
+
+  test('should wait for a popup that opens later', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const opener = session.page as unknown as FakePage;
+
+    const waiting = sessionManager.waitForPopup('s1', 1000, false);
+    const popup = opener.context().openPopup(opener);
+
+    await expect(waiting).resolves.toBe(popup);
+    expect(session.page).toBe(opener);
+  });
+
+  test('should time out when no popup opens', async () => {
+    await sessionManager.getOrCreateSession('s1');
+
+    await expect(sessionManager.waitForPopup('s1', 10, true)).rejects.toThrow('No popup opened within 10ms');
+  });
+});
+
+describe('SessionManager contexts', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    sessionManager = new SessionManager();
+  });
+
+  afterEach(async () => {
+    await sessionManager.closeAllSessions();
+  });
+
+  test('should start with a default context', async () => {
+    await sessionManager.getOrCreateSession('s1');
+
+    const { contexts, active } = sessionManager.getContexts('s1');
+    expect(contexts.map((named) => named.name)).toEqual(['default']);
+    expect(active).toBe('default');
+  });
+
+  test('should create a context with its own settings and switch to it', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const defaultPage = session.page;
+
+    const seller = await sessionManager.createContext('s1', 'seller', { locale: 'de-DE', viewport: { width: 800 } });
+
+    expect((seller.context as unknown as FakeContext).options).toMatchObject({
+      locale: 'de-DE',
+      viewport: { width: 800, height: 720 },
+    });
+    expect(session.activeContext).toBe('seller');
+    expect(session.page).not.toBe(defaultPage);
+    expect(sessionManager.getTabs('s1').pages).toEqual([session.page]);
+    await expect(sessionManager.createContext('s1', 'seller', {})).rejects.toThrow('already exists');
+  });
+
+  test('should switch back to the latest tab of a context', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const defaultPage = session.page;
+    await sessionManager.createContext('s1', 'seller', {});
+
+    await sessionManager.switchContext('s1', 'default');
+
+    expect(session.page).toBe(defaultPage);
+    await expect(sessionManager.switchContext('s1', 'admin')).rejects.toThrow('No context named "admin"');
+  });
+
+  test('should fall back to the remaining context when the active one is disposed', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+    const defaultPage = session.page;
+    await sessionManager.createContext('s1', 'seller', {});
+
+    await sessionManager.disposeContext('s1', 'seller');
+
+    expect(session.activeContext).toBe('default');
+    expect(session.page).toBe(defaultPage);
+    expect(sessionManager.getContexts('s1').contexts.map((named) => named.name)).toEqual(['default']);
+  });
+});
+
+describe('SessionManager browser connections', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await sessionManager.closeAllSessions();
+  });
+
+  test('should connect over CDP and work in the existing browser profile', async () => {
+    const existingContext = new FakeContext();
+    const existingPage = await existingContext.newPage();
+    const browser = createFakeBrowser([existingContext]);
+    (chromium.connectOverCDP as jest.Mock<any>).mockResolvedValueOnce(browser);
+    sessionManager = new SessionManager({ browserDefaults: { cdpEndpoint: 'http://localhost:9222' } });
+
+    const session = await sessionManager.getOrCreateSession('s1');
+
+    expect(chromium.connectOverCDP).toHaveBeenCalledWith('http://localhost:9222');
+    expect(chromium.launch).not.toHaveBeenCalled();
+    expect(session.connection).toEqual({ cdpEndpoint: 'http://localhost:9222' });
+    expect(session.page).toBe(existingPage);
+    expect(session.contexts.get('default').context).toBe(existingContext);
+  });
+
+  test('should connect to a browser server given by a single call', async () => {
+    const session = await (sessionManager = new SessionManager()).getOrCreateSession('s1', {
+      wsEndpoint: 'ws://localhost:3000/abc'
+    });
+
+    expect(chromium.connect).toHaveBeenCalledWith('ws://localhost:3000/abc');
+    expect(session.connection).toEqual({ wsEndpoint: 'ws://localhost:3000/abc' });
+
+    // Later calls without an endpoint keep the connection
+    await sessionManager.getOrCreateSession('s1', {});
+    expect(chromium.connect).toHaveBeenCalledTimes(1);
+    expect(chromium.launch).not.toHaveBeenCalled();
+  });
+
+  test('should reconnect when a call asks for another endpoint', async () => {
+    sessionManager = new SessionManager();
+    const session = await sessionManager.getOrCreateSession('s1', { wsEndpoint: 'ws://localhost:3000/a' });
+    const firstBrowser = session.browser;
+
+    await sessionManager.getOrCreateSession('s1', { wsEndpoint: 'ws://localhost:3000/b' });
+
+    expect(firstBrowser.close).toHaveBeenCalled();
+    expect(chromium.connect).toHaveBeenLastCalledWith('ws://localhost:3000/b');
+    expect(session.connection).toEqual({ wsEndpoint: 'ws://localhost:3000/b' });
+  });
+});
+
+describe('SessionManager launch options', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionManager = new SessionManager({
+      browserDefaults: { launchOptions: { slowMo: 50 } }
+    });
+  });
+
+  afterEach(async () => {
+    await sessionManager.closeAllSessions();
+  });
+
+  test('should launch with the default launch options', async () => {
+    const session = await sessionManager.getOrCreateSession('s1');
+
+    expect(chromium.launch).toHaveBeenCalledWith({ headless: false, slowMo: 50 });
+    expect(session.launchOptions).toEqual({ slowMo: 50 });
+  });
+
+  test('should relaunch only when a call asks for different launch options', async () => {
+    const proxied = { proxy: { server: 'http://proxy:3128', bypass: 'localhost' } };
+    const session = await sessionManager.getOrCreateSession('s1', { launchOptions: proxied });
+    const firstBrowser = session.browser;
+
+    await sessionManager.getOrCreateSession('s1', {});
+    await sessionManager.getOrCreateSession('s1', { launchOptions: proxied });
+    expect(chromium.launch).toHaveBeenCalledTimes(1);
+
+    expect(chromium.launch).toHaveBeenCalledWith({ headless: false, slowMo: 50, ...proxied });
+
+    await sessionManager.getOrCreateSession('s1', { launchOptions: { slowMo: 10 } });
+
+    expect(firstBrowser.close).toHaveBeenCalled();
+    expect(chromium.launch).toHaveBeenLastCalledWith({ headless: false, slowMo: 10 });
+    expect(session.launchOptions).toEqual({ slowMo: 10 });
+  });
+
+  test('should launch a persistent context for a user data directory', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', {
+      launchOptions: { userDataDir: '/tmp/profile', channel: 'chrome' }
+    });
+
+    expect(chromium.launch).not.toHaveBeenCalled();
+    expect(chromium.launchPersistentContext).toHaveBeenCalledWith(
+      '/tmp/profile',
+      expect.objectContaining({ headless: false, channel: 'chrome', viewport: { width: 1280, height: 720 } })
+    );
+    const persistent = session.contexts.get('default').context as unknown as FakeContext;
+    expect(persistent.pages()).toEqual([session.page]);
+  });
+
+  test('should not dispose the profile of a persistent user data directory', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', {
+      launchOptions: { userDataDir: '/tmp/profile' }
+    });
+
+    await expect(sessionManager.disposeContext('s1', 'default')).rejects.toThrow("browser's own profile");
+    expect(session.page.isClosed()).toBe(false);
+    expect(sessionManager.getContexts('s1').contexts.map((named) => named.name)).toEqual(['default']);
+  });
+
+  test('should refuse a saved profile together with a user data directory', async () => {
+    await expect(
+      sessionManager.getOrCreateSession('s1', {
+        storageState: '/tmp/state.json',
+        launchOptions: { userDataDir: '/tmp/profile' }
+      })
+    ).rejects.toThrow('A saved profile cannot be loaded into a persistent userDataDir profile');
+  });
+});
+
+describe('SessionManager emulation', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    sessionManager = new SessionManager();
+  });
+
+  afterEach(async () => {
+    await sessionManager.closeAllSessions();
+  });
+
+  test('should apply a device descriptor with explicit overrides', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', {
+      device: 'Test Phone',
+      hasTouch: false,
+      colorScheme: 'dark',
+      timezoneId: 'Europe/Berlin'
+    });
+
+    const context = session.contexts.get('default').context as unknown as FakeContext;
+    expect(context.options).toEqual({
+      userAgent: 'TestPhone/1.0',
+      viewport: { width: 390, height: 664 },
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: false,
+      colorScheme: 'dark',
+      timezoneId: 'Europe/Berlin'
+    });
+  });
+
+  test('should let an explicit viewport and scale factor win over the device', async () => {
+    await sessionManager.getOrCreateSession('s1');
+
+    const named = await sessionManager.createContext('s1', 'tablet', {
+      device: 'Test Phone',
+      viewport: { width: 800 },
+      deviceScaleFactor: 2
+    });
+
+    expect((named.context as unknown as FakeContext).options).toMatchObject({
+      viewport: { width: 800, height: 664 },
+      deviceScaleFactor: 2
+    });
+  });
+
+  test('should reject an unknown device', async () => {
+    await sessionManager.getOrCreateSession('s1');
+
+    await expect(sessionManager.createContext('s1', 'phone', { device: 'Nokia 3310' })).rejects.toThrow('Unknown device: Nokia 3310');
+  });
+});
+
+describe('SessionManager context recreation', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessionManager = new SessionManager();
+  });
+
+  afterEach(async () => {
+    await sessionManager.closeAllSessions();
+  });
+
+  test('should recreate the active context with changed settings, storage and URL', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', { locale: 'de-DE' });
+    const oldPage = session.page as unknown as FakePage;
+    await oldPage.goto('https://example.com/cart');
+
+    const named = await sessionManager.recreateContext('s1', { userAgent: 'Bot/1.0' }, { preserveStorage: true, preserveUrl: true });
+
+    expect(oldPage.isClosed()).toBe(true);
+    expect(named.name).toBe('default');
+    expect(named.settings).toMatchObject({ locale: 'de-DE', userAgent: 'Bot/1.0' });
+    expect((named.context as unknown as FakeContext).options).toMatchObject({
+      locale: 'de-DE',
+      userAgent: 'Bot/1.0',
+      storageState: { cookies: [{ name: 'sid', value: '1' }], origins: [] }
+    });
+    expect(session.page.url()).toBe('https://example.com/cart');
+    expect(sessionManager.getTabs('s1').pages).toEqual([session.page]);
+  });
+
+  test('should start empty when storage and URL are not preserved', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', { storageState: '/tmp/state.json' });
+    await (session.page as unknown as FakePage).goto('https://example.com/');
+
+    const named = await sessionManager.recreateContext('s1', { userAgent: 'Bot/1.0' });
+
+    expect((named.context as unknown as FakeContext).options).not.toHaveProperty('storageState');
+    expect(session.page.url()).toBe('about:blank');
+  });
+
+  test('should recreate the active context only when context settings change', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', { locale: 'de-DE' });
+    const firstPage = session.page as unknown as FakePage;
+
+    expect(await sessionManager.applyContextSettings('s1', { locale: 'de-DE' })).toBeUndefined();
+    expect(firstPage.isClosed()).toBe(false);
+
+    const firstUrl = firstPage.url();
+    const { context: named, closedTabs } = (await sessionManager.applyContextSettings('s1', { device: 'Test Phone', timezoneId: 'Europe/Berlin' }))!;
+
+    expect(firstPage.isClosed()).toBe(true);
+    expect(closedTabs).toEqual([firstUrl]);
+    expect(named.settings).toMatchObject({ locale: 'de-DE', device: 'Test Phone', timezoneId: 'Europe/Berlin' });
+    expect((named.context as unknown as FakeContext).options).toMatchObject({
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      storageState: { cookies: [{ name: 'sid', value: '1' }], origins: [] }
+    });
+  });
+
+  test('should not recreate the profile of a browser connected over CDP', async () => {
+    const existingContext = new FakeContext();
+    await existingContext.newPage();
+    (chromium.connectOverCDP as jest.Mock<any>).mockResolvedValueOnce(createFakeBrowser([existingContext]));
+    await sessionManager.getOrCreateSession('s1', { cdpEndpoint: 'http://localhost:9222' });
+
+    await expect(sessionManager.recreateContext('s1', { userAgent: 'Bot/1.0' })).rejects.toThrow("browser's own profile");
+  });
+
+  test('should seed the recreated context from a newly requested profile only', async () => {
+    const session = await sessionManager.getOrCreateSession('s1', { storageState: '/tmp/seller.json' });
+    const firstPage = session.page as unknown as FakePage;
+
+    expect(await sessionManager.applyContextSettings('s1', { storageState: '/tmp/seller.json' })).toBeUndefined();
+    expect(firstPage.isClosed()).toBe(false);
+
+    const { context: named, changed } = (await sessionManager.applyContextSettings('s1', { storageState: '/tmp/buyer.json' }))!;
+
+    expect(changed).toEqual(['storageState']);
+    expect((named.context as unknown as FakeContext).options).toMatchObject({ storageState: '/tmp/buyer.json' });
+    expect(await sessionManager.applyContextSettings('s1', { storageState: '/tmp/buyer.json' })).toBeUndefined();
+  });
+
+  test('should refuse to change the emulation of a browser connected over CDP', async () => {
+    const existingContext = new FakeContext();
+    const existingPage = await existingContext.newPage();
+    (chromium.connectOverCDP as jest.Mock<any>).mockResolvedValueOnce(createFakeBrowser([existingContext]));
+    await sessionManager.getOrCreateSession('s1', { cdpEndpoint: 'http://localhost:9222' });
+
+    await expect(sessionManager.applyContextSettings('s1', { locale: 'de-DE', colorScheme: 'dark' }))
+      .rejects.toThrow('so locale, colorScheme cannot be changed; create a context with these settings using playwright_create_context');
+    expect(existingPage.isClosed()).toBe(false);
+  });
+
+  test('should not dispose the profile of a browser connected over CDP', async () => {
+    const existingContext = new FakeContext();
+    const existingPage = await existingContext.newPage();
+    (chromium.connectOverCDP as jest.Mock<any>).mockResolvedValueOnce(createFakeBrowser([existingContext]));
+    await sessionManager.getOrCreateSession('s1', { cdpEndpoint: 'http://localhost:9222' });
+
+    await expect(sessionManager.disposeContext('s1', 'default')).rejects.toThrow("browser's own profile");
+    expect(existingPage.isClosed()).toBe(false);
+  });
+});
@@ -1,4 +1,6 @@
-import { handleToolCall, getConsoleLogs, getScreenshots } from '../toolHandler.js';
+import { ToolHandler } from '../toolHandler.js';
+import { Metrics } from '../metrics.js';
+import { ProfileStore } from '../profiles.js';
 import { Browser, Page, chromium, firefox, webkit } from 'playwright';
 import { jest } from '@jest/globals';
 
@@ -49,13 +51,20 @@ jest.mock('playwright', () => {
     on: mockOn,
     frames: mockFrames,
     locator: mockLocator,
-    isClosed: mockIsClosed
+    isClosed: mockIsClosed,
+    waitForURL: jest.fn().mockImplementation(() => Promise.resolve()),
+    url: jest.fn().mockReturnValue('https://example.com/dashboard'),
+    context: jest.fn(() => mockContext)
   };
 
   const mockNewPage = jest.fn().mockImplementation(() => Promise.resolve(mockPage));
   const mockContexts = jest.fn().mockReturnValue([]);
   const mockContext = {
-    newPage: mockNewPage
+    newPage: mockNewPage,
+    pages: jest.fn().mockReturnValue([]),
+    on: jest.fn(),
+    close: jest.fn().mockImplementation(() => Promise.resolve()),
+    storageState: jest.fn().mockImplementation(() => Promise.resolve({ cookies: [], origins: [] }))
   };
 
   const mockNewContext = jest.fn().mockImplementation(() => Promise.resolve(mockContext));
@@ -131,7 +140,8 @@ jest.mock('playwright', () => {
 
   return {
     chromium: {
-      launch: mockLaunch
+      launch: mockLaunch,
+      connect: jest.fn().mockImplementation(() => Promise.resolve(mockBrowser))
     },
     firefox: {
       launch: mockLaunch
@@ -142,6 +152,9 @@ jest.mock('playwright', () => {
     request: {
       newContext: mockNewApiContext
     },
+    devices: {
+      'Pixel 7': { viewport: { width: 412, height: 839 }, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true }
+    },
     // Use empty objects for Browser and Page types
     Browser: {},
     Page: {}
@@ -158,12 +171,19 @@ const mockServer = {
 // Instead, we'll update our expectations to match the actual implementation
 
 describe('Tool Handler', () => {
+  let toolHandler: ToolHandler;
+
   beforeEach(() => {
     jest.clearAllMocks();
+    toolHandler = new ToolHandler();
+  });
+
+  afterEach(async () => {
+    await toolHandler.closeAll();
   });
 
   test('handleToolCall should handle unknown tool', async () => {
-    const result = await handleToolCall('unknown_tool', {}, mockServer);
+    const result = await toolHandler.handleToolCall('session-a', 'unknown_tool', {}, mockServer);
     expect(result.isError).toBe(true);
     expect(result.content[0].text).toContain('Unknown tool');
   });
@@ -173,21 +193,21 @@ describe('Tool Handler', () => {
   
   test('handleToolCall should handle browser tools', async () => {
     // Test a few representative browser tools
-    const navigateResult = await handleToolCall('playwright_navigate', { url: 'https://example.com' }, mockServer);
+    const navigateResult = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
     expect(navigateResult).toBeDefined();
     expect(navigateResult.content).toBeDefined();
     
-    const screenshotResult = await handleToolCall('playwright_screenshot', { name: 'test-screenshot' }, mockServer);
+    const screenshotResult = await toolHandler.handleToolCall('session-a', 'playwright_screenshot', { name: 'test-screenshot' }, mockServer);
     expect(screenshotResult).toBeDefined();
     expect(screenshotResult.content).toBeDefined();
     
-    const clickResult = await handleToolCall('playwright_click', { selector: '#test-button' }, mockServer);
+    const clickResult = await toolHandler.handleToolCall('session-a', 'playwright_click', { selector: '#test-button' }, mockServer);
     expect(clickResult).toBeDefined();
     expect(clickResult.content).toBeDefined();
   });
   
   test('handleToolCall should handle Firefox browser', async () => {
-    const navigateResult = await handleToolCall('playwright_navigate', { 
+    const navigateResult = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { 
       url: 'https://example.com',
       browserType: 'firefox'
     }, mockServer);
@@ -195,11 +215,11 @@ describe('Tool Handler', () => {
     expect(navigateResult.content).toBeDefined();
     
     // Verify browser state is reset
-    await handleToolCall('playwright_close', {}, mockServer);
+    await toolHandler.handleToolCall('session-a', 'playwright_close', {}, mockServer);
   });
   
   test('handleToolCall should handle WebKit browser', async () => {
-    const navigateResult = await handleToolCall('playwright_navigate', { 
+    const navigateResult = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { 
       url: 'https://example.com',
       browserType: 'webkit'
     }, mockServer);
@@ -207,15 +227,15 @@ describe('Tool Handler', () => {
     expect(navigateResult.content).toBeDefined();
     
     // Verify browser state is reset
-    await handleToolCall('playwright_close', {}, mockServer);
+    await toolHandler.handleToolCall('session-a', 'playwright_close', {}, mockServer);
   });
   
   test('handleToolCall should handle browser type switching', async () => {
     // Start with default chromium
-    await handleToolCall('playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
     
     // Switch to Firefox
-    const firefoxResult = await handleToolCall('playwright_navigate', { 
+    const firefoxResult = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { 
       url: 'https://firefox.com',
       browserType: 'firefox'
     }, mockServer);
@@ -223,7 +243,7 @@ describe('Tool Handler', () => {
     expect(firefoxResult.content).toBeDefined();
     
     // Switch to WebKit
-    const webkitResult = await handleToolCall('playwright_navigate', { 
+    const webkitResult = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { 
       url: 'https://webkit.org',
       browserType: 'webkit'
     }, mockServer);
@@ -231,16 +251,16 @@ describe('Tool Handler', () => {
     expect(webkitResult.content).toBeDefined();
     
     // Clean up
-    await handleToolCall('playwright_close', {}, mockServer);
+    await toolHandler.handleToolCall('session-a', 'playwright_close', {}, mockServer);
   });
   
   test('handleToolCall should handle API tools', async () => {
     // Test a few representative API tools
-    const getResult = await handleToolCall('playwright_get', { url: 'https://api.example.com' }, mockServer);
+    const getResult = await toolHandler.handleToolCall('session-a', 'playwright_get', { url: 'https://api.example.com' }, mockServer);
     expect(getResult).toBeDefined();
     expect(getResult.content).toBeDefined();
     
-    const postResult = await handleToolCall('playwright_post', { 
+    const postResult = await toolHandler.handleToolCall('session-a', 'playwright_post', { 
       url: 'https://api.example.com', 
       value: '{"data": "test"}' 
     }, mockServer);
@@ -249,12 +269,214 @@ describe('Tool Handler', () => {
   });
 
   test('getConsoleLogs should return console logs', () => {
-    const logs = getConsoleLogs();
+    const logs = toolHandler.getConsoleLogs('session-a');
     expect(Array.isArray(logs)).toBe(true);
   });
 
   test('getScreenshots should return screenshots map', () => {
-    const screenshots = getScreenshots();
+    const screenshots = toolHandler.getScreenshots('session-a');
     expect(screenshots instanceof Map).toBe(true);
   });
-}); 
\ No newline at end of file
+});
+
+describe('ToolHandler sessions', () => {
+  let toolHandler: ToolHandler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    toolHandler = new ToolHandler();
+  });
+
+  afterEach(async () => {
+    await toolHandler.closeAll();
+  });
+
+  test('should launch a separate browser for each session', async () => {
+    await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await toolHandler.handleToolCall('session-b', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await toolHandler.handleToolCall('session-a', 'playwright_click', { selector: '#test-button' }, mockServer);
+
+    expect(chromium.launch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not launch a browser when closing a session without one', async () => {
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_close', {}, mockServer);
+
+    expect(chromium.launch).not.toHaveBeenCalled();
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('No browser instance to close');
+  });
+
+  test('should only close the browser of the given session', async () => {
+    await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await toolHandler.handleToolCall('session-b', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+
+    await toolHandler.close('session-a');
+    await toolHandler.handleToolCall('session-b', 'playwright_click', { selector: '#test-button' }, mockServer);
+
+    expect(chromium.launch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should run API tools for a session', async () => {
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_get', { url: 'https://api.example.com' }, mockServer);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('GET request to https://api.example.com');
+  });
+
+  test('should record tool calls and browser launches in metrics', async () => {
+    const metrics = new Metrics();
+    const instrumentedHandler = new ToolHandler({ metrics });
+
+    await instrumentedHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+    await instrumentedHandler.handleToolCall('session-a', 'unknown_tool', {}, mockServer);
+
+    const output = metrics.render({ activeSessions: instrumentedHandler.activeSessions, connectedClients: 0 });
+    expect(output).toContain('playwright_mcp_active_sessions 1');
+    expect(output).toContain('playwright_mcp_browser_launches_total{browser_type="chromium"} 1');
+    expect(output).toContain('playwright_mcp_tool_calls_total{tool="playwright_navigate"} 1');
+    expect(output).toContain('playwright_mcp_tool_errors_total{tool="unknown_tool"} 1');
+
+    await instrumentedHandler.closeAll();
+  });
+
+  test('should record tool calls that throw as errors', async () => {
+    const metrics = new Metrics();
+    const instrumentedHandler = new ToolHandler({ metrics });
+    jest.spyOn(instrumentedHandler as any, 'executeToolCall').mockImplementation(() => Promise.reject(new Error('Session lost')));
+
+    await expect(instrumentedHandler.handleToolCall('session-a', 'playwright_click', { selector: '#a' }, mockServer)).rejects.toThrow('Session lost');
+
+    const output = metrics.render({ activeSessions: 0, connectedClients: 0 });
+    expect(output).toContain('playwright_mcp_tool_calls_total{tool="playwright_click"} 1');
+    expect(output).toContain('playwright_mcp_tool_errors_total{tool="playwright_click"} 1');
+  });
+
+  test('should launch browsers with the configured defaults', async () => {
+    const configuredHandler = new ToolHandler({ browserDefaults: { headless: true } });
+
+    await configuredHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+
+    expect(chromium.launch).toHaveBeenCalledWith({ headless: true });
+
+    await configuredHandler.closeAll();
+  });
+
+  test('should reject URLs outside the allowed patterns', async () => {
+    const restrictedHandler = new ToolHandler({ allowedUrlPatterns: ['https://example.com/*'] });
+
+    const result = await restrictedHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://other.test/' }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('URL not allowed: https://other.test/');
+    expect(chromium.launch).not.toHaveBeenCalled();
+
+    await restrictedHandler.closeAll();
+  });
+
+  test('should not apply the allowed patterns to URL globs of tools that do not navigate', async () => {
+    const restrictedHandler = new ToolHandler({ allowedUrlPatterns: ['https://example.com/*'] });
+
+    await restrictedHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com/' }, mockServer);
+    const result = await restrictedHandler.handleToolCall('session-a', 'playwright_wait_for', { url: '**/dashboard', timeout: 1000 }, mockServer);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('for URL to match **/dashboard');
+
+    await restrictedHandler.closeAll();
+  });
+
+  test('should not launch a browser for a missing profile', async () => {
+    const profiles = new ProfileStore('/nonexistent/profiles');
+    const profileHandler = new ToolHandler({ profiles });
+
+    const result = await profileHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', profile: 'buyer' }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Failed to load profile: Profile not found: buyer');
+    expect(chromium.launch).not.toHaveBeenCalled();
+
+    await profileHandler.closeAll();
+  });
+
+  test('should load a profile into the context of a running session', async () => {
+    const profiles = new ProfileStore('/profiles');
+    jest.spyOn(profiles, 'resolve').mockImplementation(() => Promise.resolve('/profiles/buyer.json'));
+    const profileHandler = new ToolHandler({ profiles });
+
+    await profileHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+    const result = await profileHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', profile: 'buyer' }, mockServer);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[result.content.length - 1].text).toContain('was recreated to apply the new profile. Cookies and localStorage were replaced with the saved profile');
+    const browser = await (chromium.launch as jest.Mock<any>).mock.results[0].value;
+    expect(chromium.launch).toHaveBeenCalledTimes(1);
+    expect(browser.newContext).toHaveBeenLastCalledWith(expect.objectContaining({ storageState: '/profiles/buyer.json' }));
+
+    await profileHandler.closeAll();
+  });
+
+  test('should not launch a browser with invalid launch options', async () => {
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', launchOptions: { proxy: { bypass: 'localhost' } } }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Invalid launchOptions: proxy.server: Required');
+    expect(chromium.launch).not.toHaveBeenCalled();
+  });
+
+  test('should not let a call choose the browser executable or its arguments', async () => {
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', launchOptions: { executablePath: '/bin/sh', args: ['-c', 'id'] } }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Only proxy, slowMo and timeout can be set per call');
+    expect(chromium.launch).not.toHaveBeenCalled();
+  });
+
+  test('should launch the browser with the requested device emulation', async () => {
+    await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', device: 'Pixel 7', colorScheme: 'dark' }, mockServer);
+
+    const browser = await (chromium.launch as jest.Mock<any>).mock.results[0].value;
+    expect(browser.newContext).toHaveBeenCalledWith(expect.objectContaining({
+      viewport: { width: 412, height: 839 },
+      deviceScaleFactor: 2.625,
+      isMobile: true,
+      colorScheme: 'dark'
+    }));
+  });
+
+  test('should recreate the context when a later navigation asks for other emulation settings', async () => {
+    await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com' }, mockServer);
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', device: 'Pixel 7' }, mockServer);
+
+    expect(result.isError).toBe(false);
+    const note = result.content[result.content.length - 1].text;
+    expect(note).toContain('Browser context "default" was recreated to apply the new emulation settings');
+    expect(note).toContain('Closed tabs (1):\n[0] https://example.com/dashboard');
+    const browser = await (chromium.launch as jest.Mock<any>).mock.results[0].value;
+    expect(chromium.launch).toHaveBeenCalledTimes(1);
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+    expect(browser.newContext).toHaveBeenLastCalledWith(expect.objectContaining({
+      viewport: { width: 412, height: 839 },
+      isMobile: true,
+      storageState: { cookies: [], origins: [] }
+    }));
+  });
+
+  test('should not launch a browser for an unknown device', async () => {
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', device: 'Nokia 3310' }, mockServer);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Unknown device: Nokia 3310. Use playwright_list_devices to see the available devices');
+    expect(chromium.launch).not.toHaveBeenCalled();
+  });
+
+  test('should only disconnect from a browser it connected to', async () => {
+    await toolHandler.handleToolCall('session-a', 'playwright_navigate', { url: 'https://example.com', wsEndpoint: 'ws://localhost:3000/abc' }, mockServer);
+
+    const result = await toolHandler.handleToolCall('session-a', 'playwright_close', {}, mockServer);
+
+    expect(chromium.connect).toHaveBeenCalledWith('ws://localhost:3000/abc');
+    expect(chromium.launch).not.toHaveBeenCalled();
+    expect(result.content[0].text).toBe('Disconnected from browser; the browser itself keeps running');
+  });
+});
@@ -0,0 +1,38 @@
+import { jsonSchemaToZod } from '../toolSchemas';
+import { createToolDefinitions } from '../tools';
+
+describe('jsonSchemaToZod', () => {
+  const toolDefinitions = createToolDefinitions();
+
+  test('should convert every tool input schema', () => {
+    toolDefinitions.forEach(tool => {
+      const schema = jsonSchemaToZod(tool.inputSchema);
+      const shape = (schema as any).shape;
+      expect(Object.keys(shape)).toEqual(Object.keys(tool.inputSchema.properties));
+    });
+  });
+
+  test('should enforce required properties', () => {
+    const navigateTool = toolDefinitions.find(tool => tool.name === 'playwright_navigate')!;
+    const schema = jsonSchemaToZod(navigateTool.inputSchema);
+
+    expect(schema.safeParse({ url: 'https://example.com' }).success).toBe(true);
+    expect(schema.safeParse({ width: 1280 }).success).toBe(false);
+  });
+
+  test('should enforce enum values', () => {
+    const navigateTool = toolDefinitions.find(tool => tool.name === 'playwright_navigate')!;
+    const schema = jsonSchemaToZod(navigateTool.inputSchema);
+
+    expect(schema.safeParse({ url: 'https://example.com', browserType: 'firefox' }).success).toBe(true);
+    expect(schema.safeParse({ url: 'https://example.com', browserType: 'opera' }).success).toBe(false);
+  });
+
+  test('should convert free-form header maps', () => {
+    const postTool = toolDefinitions.find(tool => tool.name === 'playwright_post')!;
+    const schema = jsonSchemaToZod(postTool.inputSchema);
+
+    expect(schema.safeParse({ url: 'https://api.example.com', value: '{}', headers: { 'X-Test': 'yes' } }).success).toBe(true);
+    expect(schema.safeParse({ url: 'https://api.example.com', value: '{}', headers: { 'X-Test': 1 } }).success).toBe(false);
+  });
+});
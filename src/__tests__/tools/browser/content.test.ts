@@ -0,0 +1,183 @@
+import {
+  paginate,
+  GetVisibleTextTool,
+  GetVisibleHtmlTool,
+  GetMarkdownTool,
+  ListInteractiveElementsTool
+} from '../../../tools/browser/content.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Results of the in-browser extractor, one per matching element
+const mockEvaluateAll = jest.fn<(extractor: unknown, arg?: unknown) => Promise<unknown[]>>();
+const mockLocator = jest.fn().mockReturnValue({ evaluateAll: mockEvaluateAll });
+
+// Document positions of the elements a role locator matches across the page
+const mockRoleEvaluateAll = jest.fn<(extractor: unknown) => Promise<number[]>>();
+const mockGetByRole = jest.fn().mockReturnValue({ evaluateAll: mockRoleEvaluateAll });
+
+const mockPage = {
+  locator: mockLocator,
+  getByRole: mockGetByRole,
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('paginate', () => {
+  test('should return short content whole', () => {
+    expect(paginate('Hello', 0, 100)).toEqual(['Hello']);
+  });
+
+  test('should end a chunk at a line break and point to the next one', () => {
+    const content = 'first line\nsecond line\nthird line';
+
+    expect(paginate(content, 0, 15)).toEqual([
+      'first line\n',
+      '[Characters 0-11 of 33. Call again with offset 11 for the next chunk]'
+    ]);
+    expect(paginate(content, 11, 100)).toEqual([
+      'second line\nthird line',
+      '[Characters 11-33 of 33. End of content]'
+    ]);
+  });
+
+  test('should split long lines at maxLength', () => {
+    expect(paginate('abcdefghij', 0, 4)[0]).toBe('abcd');
+  });
+
+  test('should reject an offset past the end', () => {
+    expect(() => paginate('abc', 3, 10)).toThrow('offset 3 is past the end of the content (3 characters)');
+  });
+});
+
+describe('Content tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should get the visible text of the page', async () => {
+    mockEvaluateAll.mockResolvedValueOnce(['Welcome\n\n\n\nSign in to continue\n']);
+
+    const result = await new GetVisibleTextTool(mockServer).execute({}, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('body');
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Welcome\n\nSign in to continue');
+  });
+
+  test('should join the text of every element matching a selector', async () => {
+    mockEvaluateAll.mockResolvedValueOnce(['First card', 'Second card']);
+
+    const result = await new GetVisibleTextTool(mockServer).execute({ selector: '.card' }, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('.card');
+    expect(result.content[0].text).toBe('First card\n\nSecond card');
+  });
+
+  test('should report a selector that matches nothing', async () => {
+    mockEvaluateAll.mockResolvedValueOnce([]);
+
+    const result = await new GetVisibleTextTool(mockServer).execute({ selector: '.missing' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No element matches selector: .missing');
+  });
+
+  test('should return the HTML in chunks', async () => {
+    mockEvaluateAll.mockResolvedValueOnce(['<main><h1>Title</h1></main>']);
+
+    const result = await new GetVisibleHtmlTool(mockServer).execute({ maxLength: 10, keepStyles: true }, mockContext);
+
+    expect(mockEvaluateAll).toHaveBeenCalledWith(expect.any(Function), { keepStyles: true });
+    expect(result.content[0].text).toBe('<main><h1>');
+    expect(result.content[1].text).toBe('[Characters 0-10 of 27. Call again with offset 10 for the next chunk]');
+  });
+
+  test('should reject an invalid chunk size', async () => {
+    const result = await new GetVisibleHtmlTool(mockServer).execute({ maxLength: 0 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockEvaluateAll).not.toHaveBeenCalled();
+  });
+
+  test('should convert the main content to markdown unless given a selector', async () => {
+    mockEvaluateAll.mockResolvedValue(['# Title\n\nSome **bold** text']);
+
+    const page = await new GetMarkdownTool(mockServer).execute({}, mockContext);
+    await new GetMarkdownTool(mockServer).execute({ selector: 'article' }, mockContext);
+
+    expect(page.content[0].text).toBe('# Title\n\nSome **bold** text');
+    expect(mockEvaluateAll).toHaveBeenNthCalledWith(1, expect.any(Function), { mainContent: true });
+    expect(mockEvaluateAll).toHaveBeenNthCalledWith(2, expect.any(Function), { mainContent: false });
+  });
+
+  test('should list links, buttons and forms with locators', async () => {
+    mockEvaluateAll.mockResolvedValueOnce([{
+      links: [{ text: 'Pricing', href: 'https://example.com/pricing', locator: { role: 'link', name: 'Pricing', exact: true }, position: 12, fallback: 'a >> nth=0' }],
+      buttons: [{ text: 'Sign in', locator: { role: 'button', name: 'Sign in', exact: true }, position: 20, fallback: 'button >> nth=0' }],
+      forms: [{
+        description: 'login POST https://example.com/session',
+        locator: { selector: 'form#login' },
+        fields: [{ description: '"Email" (email, required)', locator: { label: 'Email', exact: true } }]
+      }]
+    }]);
+
+    mockRoleEvaluateAll.mockResolvedValueOnce([12]).mockResolvedValueOnce([20]);
+
+    const result = await new ListInteractiveElementsTool(mockServer).execute({}, mockContext);
+
+    expect(mockGetByRole).toHaveBeenCalledWith('link', { name: 'Pricing', exact: true });
+    expect(result.content[0].text).toBe([
+      'Links (1):',
+      '  "Pricing" -> https://example.com/pricing  locator: {"role":"link","name":"Pricing","exact":true}',
+      'Buttons (1):',
+      '  "Sign in"  locator: {"role":"button","name":"Sign in","exact":true}',
+      'Forms (1):',
+      '  login POST https://example.com/session  locator: {"selector":"form#login"}',
+      '    "Email" (email, required)  locator: {"label":"Email","exact":true}'
+    ].join('\n'));
+  });
+
+  test('should index repeated names among the matches on the whole page', async () => {
+    mockEvaluateAll.mockResolvedValueOnce([{
+      links: [],
+      buttons: [
+        { text: 'Delete', locator: { role: 'button', name: 'Delete', exact: true }, position: 40, fallback: 'button >> nth=3' },
+        { text: 'Edit', locator: { role: 'button', name: 'Edit', exact: true }, position: 41, fallback: 'button#edit' }
+      ],
+      forms: []
+    }]);
+    // A Delete button outside the selector comes first; Playwright does not match Edit by that name
+    mockRoleEvaluateAll.mockResolvedValueOnce([7, 40]).mockResolvedValueOnce([]);
+
+    const result = await new ListInteractiveElementsTool(mockServer).execute({ selector: '#list', types: ['buttons'] }, mockContext);
+
+    expect(result.content[0].text).toBe([
+      'Buttons (2):',
+      '  "Delete"  locator: {"role":"button","name":"Delete","exact":true,"nth":1}',
+      '  "Edit"  locator: {"selector":"button#edit"}'
+    ].join('\n'));
+  });
+
+  test('should list only the requested kinds of elements', async () => {
+    mockEvaluateAll.mockResolvedValueOnce([{ links: [], buttons: [], forms: [] }]);
+
+    const result = await new ListInteractiveElementsTool(mockServer).execute({ types: ['buttons'] }, mockContext);
+
+    expect(result.content[0].text).toBe('Buttons (0):');
+  });
+});
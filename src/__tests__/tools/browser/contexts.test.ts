@@ -0,0 +1,121 @@
+import { CreateContextTool, ListContextsTool, SwitchContextTool, DisposeContextTool } from '../../../tools/browser/contexts.js';
+import { ToolContext, ContextManager } from '../../../tools/common/types.js';
+import { Page, Browser, BrowserContext } from 'playwright';
+import { jest } from '@jest/globals';
+
+const mockContexts = {
+  list: jest.fn<ContextManager['list']>(),
+  create: jest.fn<ContextManager['create']>(),
+  switch: jest.fn<ContextManager['switch']>(),
+  dispose: jest.fn<ContextManager['dispose']>(),
+  recreate: jest.fn<ContextManager['recreate']>()
+};
+
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer,
+  contexts: mockContexts
+} as ToolContext;
+
+const browserContext = {} as BrowserContext;
+
+describe('Context tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should create a context with the given settings', async () => {
+    mockContexts.create.mockImplementation(async (name, settings) => ({ name, settings, context: browserContext }));
+
+    const result = await new CreateContextTool(mockServer).execute(
+      { name: 'seller', width: 390, height: 844, locale: 'de-DE' },
+      mockContext
+    );
+
+    expect(mockContexts.create).toHaveBeenCalledWith('seller', {
+      viewport: { width: 390, height: 844 },
+      locale: 'de-DE'
+    });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Created context "seller" with viewport 390x844, locale de-DE');
+  });
+
+  test('should create a context emulating a device', async () => {
+    mockContexts.create.mockImplementation(async (name, settings) => ({ name, settings, context: browserContext }));
+
+    const result = await new CreateContextTool(mockServer).execute(
+      { name: 'phone', device: 'Pixel 7', colorScheme: 'dark', timezoneId: 'Europe/Berlin' },
+      mockContext
+    );
+
+    expect(mockContexts.create).toHaveBeenCalledWith('phone', {
+      device: 'Pixel 7',
+      colorScheme: 'dark',
+      timezoneId: 'Europe/Berlin'
+    });
+    expect(result.content[0].text).toBe('Created context "phone" with device "Pixel 7", timezone Europe/Berlin, color scheme dark');
+  });
+
+  test('should not create a context for an unknown device', async () => {
+    const result = await new CreateContextTool(mockServer).execute({ name: 'phone', device: 'Nokia 3310' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockContexts.create).not.toHaveBeenCalled();
+  });
+
+  test('should require a context name', async () => {
+    const result = await new CreateContextTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockContexts.create).not.toHaveBeenCalled();
+  });
+
+  test('should list contexts and mark the active one', async () => {
+    mockContexts.list.mockReturnValue({
+      contexts: [
+        { name: 'default', settings: {}, context: browserContext, tabCount: 2 },
+        { name: 'seller', settings: { userAgent: 'Bot' }, context: browserContext, tabCount: 1 }
+      ],
+      active: 'seller'
+    });
+
+    const result = await new ListContextsTool(mockServer).execute({}, mockContext);
+
+    expect(result.content[0].text).toBe('Contexts (2):');
+    expect(result.content[1].text).toBe('default: 2 tabs, default settings');
+    expect(result.content[2].text).toBe('seller: 1 tab, user agent "Bot" (active)');
+  });
+
+  test('should report an unknown context when switching', async () => {
+    mockContexts.switch.mockRejectedValue(new Error('No context named "admin". Contexts: default'));
+
+    const result = await new SwitchContextTool(mockServer).execute({ name: 'admin' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No context named "admin"');
+  });
+
+  test('should dispose a context and report the active one', async () => {
+    mockContexts.dispose.mockResolvedValue(undefined);
+    mockContexts.list.mockReturnValue({ contexts: [], active: 'default' });
+
+    const result = await new DisposeContextTool(mockServer).execute({ name: 'seller' }, mockContext);
+
+    expect(mockContexts.dispose).toHaveBeenCalledWith('seller');
+    expect(result.content[0].text).toBe('Disposed context "seller"');
+    expect(result.content[1].text).toBe('Active context: "default"');
+  });
+});
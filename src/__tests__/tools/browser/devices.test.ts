@@ -0,0 +1,41 @@
+import { ListDevicesTool, emulationSettings, unknownDeviceError } from '../../../tools/browser/devices.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { jest } from '@jest/globals';
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  server: mockServer
+} as ToolContext;
+
+describe('Device tools', () => {
+  test('should list matching devices with their traits', async () => {
+    const result = await new ListDevicesTool(mockServer).execute({ filter: 'iphone 13 mini' }, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Devices (2):');
+    expect(result.content[1].text).toBe('iPhone 13 Mini: 375x629 @3x, mobile, touch, webkit');
+  });
+
+  test('should report a filter that matches nothing', async () => {
+    const result = await new ListDevicesTool(mockServer).execute({ filter: 'toaster' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('No devices match "toaster"');
+  });
+
+  test('should collect only the emulation parameters that were given', () => {
+    expect(emulationSettings({ url: 'https://example.com', device: 'Pixel 7', colorScheme: 'dark', isMobile: false })).toEqual({
+      device: 'Pixel 7',
+      colorScheme: 'dark',
+      isMobile: false
+    });
+  });
+
+  test('should reject unknown device names', () => {
+    expect(unknownDeviceError('Pixel 7')).toBeUndefined();
+    expect(unknownDeviceError('Nokia 3310')).toBe('Unknown device: Nokia 3310. Use playwright_list_devices to see the available devices');
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  SetViewportTool,
+  SetGeolocationTool,
+  GrantPermissionsTool,
+  RevokePermissionsTool,
+  SetOfflineTool,
+  EmulateMediaTool,
+  SetExtraHeadersTool
+} from '../../../tools/browser/emulation.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+const mockBrowserContext = {
+  setGeolocation: jest.fn(async () => {}),
+  grantPermissions: jest.fn(async () => {}),
+  clearPermissions: jest.fn(async () => {}),
+  setOffline: jest.fn(async () => {}),
+  setExtraHTTPHeaders: jest.fn(async () => {})
+};
+
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  context: jest.fn().mockReturnValue(mockBrowserContext),
+  setViewportSize: jest.fn(async () => {}),
+  emulateMedia: jest.fn(async () => {})
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('Emulation tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should resize the viewport', async () => {
+    const result = await new SetViewportTool(mockServer).execute({ width: 390, height: 844 }, mockContext);
+
+    expect(mockPage.setViewportSize).toHaveBeenCalledWith({ width: 390, height: 844 });
+    expect(result.content[0].text).toBe('Viewport set to 390x844');
+  });
+
+  test('should reject a viewport without a positive size', async () => {
+    const result = await new SetViewportTool(mockServer).execute({ width: 390 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockPage.setViewportSize).not.toHaveBeenCalled();
+  });
+
+  test('should set and clear the geolocation', async () => {
+    const setResult = await new SetGeolocationTool(mockServer).execute({ latitude: 52.52, longitude: 13.405 }, mockContext);
+    const clearResult = await new SetGeolocationTool(mockServer).execute({ clear: true }, mockContext);
+
+    expect(mockBrowserContext.setGeolocation).toHaveBeenNthCalledWith(1, { latitude: 52.52, longitude: 13.405, accuracy: undefined });
+    expect(mockBrowserContext.setGeolocation).toHaveBeenNthCalledWith(2, null);
+    expect(setResult.content[0].text).toBe('Geolocation set to 52.52,13.405');
+    expect(clearResult.content[0].text).toBe('Geolocation cleared');
+  });
+
+  test('should require a position unless clearing the geolocation', async () => {
+    const result = await new SetGeolocationTool(mockServer).execute({ latitude: 52.52 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockBrowserContext.setGeolocation).not.toHaveBeenCalled();
+  });
+
+  test('should grant permissions to an origin and revoke them all', async () => {
+    const granted = await new GrantPermissionsTool(mockServer).execute(
+      { permissions: ['geolocation', 'notifications'], origin: 'https://example.com' },
+      mockContext
+    );
+    const revoked = await new RevokePermissionsTool(mockServer).execute({}, mockContext);
+
+    expect(mockBrowserContext.grantPermissions).toHaveBeenCalledWith(['geolocation', 'notifications'], { origin: 'https://example.com' });
+    expect(granted.content[0].text).toBe('Granted geolocation, notifications to https://example.com');
+    expect(mockBrowserContext.clearPermissions).toHaveBeenCalled();
+    expect(revoked.content[0].text).toBe('Revoked all granted permissions');
+  });
+
+  test('should toggle offline mode', async () => {
+    const result = await new SetOfflineTool(mockServer).execute({ offline: true }, mockContext);
+
+    expect(mockBrowserContext.setOffline).toHaveBeenCalledWith(true);
+    expect(result.content[0].text).toBe('Network is offline');
+  });
+
+  test('should emulate only the given media features', async () => {
+    const result = await new EmulateMediaTool(mockServer).execute({ media: 'print', colorScheme: 'dark' }, mockContext);
+
+    expect(mockPage.emulateMedia).toHaveBeenCalledWith({ media: 'print', colorScheme: 'dark' });
+    expect(result.content[0].text).toBe('Emulating media: print, colorScheme: dark');
+  });
+
+  test('should require at least one media feature', async () => {
+    const result = await new EmulateMediaTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockPage.emulateMedia).not.toHaveBeenCalled();
+  });
+
+  test('should set extra HTTP headers', async () => {
+    const result = await new SetExtraHeadersTool(mockServer).execute({ headers: { 'X-Test': '1' } }, mockContext);
+
+    expect(mockBrowserContext.setExtraHTTPHeaders).toHaveBeenCalledWith({ 'X-Test': '1' });
+    expect(result.content[0].text).toBe('Extra HTTP headers set: X-Test');
+  });
+});
@@ -0,0 +1,181 @@
+import { ExtractTool, coerceValue, validateFields } from '../../../tools/browser/extract.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Raw records scraped from each page, in order
+const mockEvaluateAll = jest.fn<(extractor: unknown, arg?: unknown) => Promise<unknown[]>>();
+
+// Next page control
+const mockNextCount = jest.fn<() => Promise<number>>();
+const mockNextIsVisible = jest.fn<() => Promise<boolean>>();
+const mockNextIsDisabled = jest.fn<() => Promise<boolean>>();
+const mockNextClick = jest.fn<() => Promise<void>>();
+const mockNext = {
+  count: mockNextCount,
+  isVisible: mockNextIsVisible,
+  isDisabled: mockNextIsDisabled,
+  click: mockNextClick
+};
+
+const mockLocator = jest.fn((selector: string) => selector === '.next'
+  ? { first: () => mockNext }
+  : { evaluateAll: mockEvaluateAll });
+
+const mockEvaluate = jest.fn<() => Promise<string>>();
+const mockWaitForFunction = jest.fn<() => Promise<void>>();
+const mockWaitForLoadState = jest.fn<() => Promise<void>>();
+
+const mockPage = {
+  locator: mockLocator,
+  evaluate: mockEvaluate,
+  waitForFunction: mockWaitForFunction,
+  waitForLoadState: mockWaitForLoadState,
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+const FIELDS = {
+  title: { selector: 'h2' },
+  price: { selector: '.price', type: 'number' },
+  tags: { selector: '.tag', multiple: true }
+};
+
+describe('coerceValue', () => {
+  test('should parse numbers with currency signs and separators', () => {
+    expect(coerceValue('$1,299.50', 'number')).toBe(1299.5);
+    expect(coerceValue('-3 °C', 'number')).toBe(-3);
+    expect(coerceValue('4.8 out of 5', 'integer')).toBe(4);
+    expect(coerceValue('n/a', 'number')).toBeNull();
+  });
+
+  test('should parse booleans and dates', () => {
+    expect(coerceValue('Yes', 'boolean')).toBe(true);
+    expect(coerceValue('off', 'boolean')).toBe(false);
+    expect(coerceValue('maybe', 'boolean')).toBeNull();
+    expect(coerceValue('2024-03-01T10:00:00Z', 'date')).toBe('2024-03-01T10:00:00.000Z');
+    expect(coerceValue('someday', 'date')).toBeNull();
+  });
+
+  test('should keep strings and missing values', () => {
+    expect(coerceValue('Blue', undefined)).toBe('Blue');
+    expect(coerceValue(null, 'number')).toBeNull();
+  });
+});
+
+describe('validateFields', () => {
+  test('should report every problem', () => {
+    expect(validateFields({
+      link: { mode: 'attribute' },
+      size: { type: 'float' as any }
+    })).toEqual([
+      'link: attribute mode needs an attribute',
+      'size: type must be one of string, number, integer, boolean, date'
+    ]);
+    expect(validateFields({})).toEqual(['fields must name at least one field']);
+  });
+});
+
+describe('ExtractTool', () => {
+  let extractTool: ExtractTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    extractTool = new ExtractTool(mockServer);
+    mockNextCount.mockResolvedValue(1);
+    mockNextIsVisible.mockResolvedValue(true);
+    mockNextIsDisabled.mockResolvedValue(false);
+    mockEvaluate.mockResolvedValue('signature');
+  });
+
+  test('should scrape items and convert their fields', async () => {
+    mockEvaluateAll.mockResolvedValueOnce([
+      { title: 'Lamp', price: '$25.00', tags: ['new', 'sale'] },
+      { title: 'Chair', price: null, tags: [] }
+    ]);
+
+    const result = await extractTool.execute({ itemSelector: '.product', fields: FIELDS }, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('.product');
+    expect(mockEvaluateAll).toHaveBeenCalledWith(expect.any(Function), FIELDS);
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Extracted 2 items from 1 page');
+    expect(JSON.parse(result.content[1].text as string)).toEqual([
+      { title: 'Lamp', price: 25, tags: ['new', 'sale'] },
+      { title: 'Chair', price: null, tags: [] }
+    ]);
+  });
+
+  test('should follow the next page control until it is gone', async () => {
+    mockEvaluateAll
+      .mockResolvedValueOnce([{ title: 'Lamp' }])
+      .mockResolvedValueOnce([{ title: 'Chair' }]);
+    mockNextCount.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+    const result = await extractTool.execute(
+      { itemSelector: '.product', fields: { title: { selector: 'h2' } }, nextSelector: '.next' },
+      mockContext
+    );
+
+    expect(mockNextClick).toHaveBeenCalledTimes(1);
+    expect(mockWaitForFunction).toHaveBeenCalledWith(expect.stringContaining('!== "signature"'), undefined, { timeout: 10000 });
+    expect(result.content[0].text).toBe('Extracted 2 items from 2 pages (no next page)');
+    expect(JSON.parse(result.content[1].text as string)).toEqual([{ title: 'Lamp' }, { title: 'Chair' }]);
+  });
+
+  test('should stop at maxPages and maxItems', async () => {
+    mockEvaluateAll.mockResolvedValue([{ title: 'Lamp' }, { title: 'Chair' }]);
+
+    const pages = await extractTool.execute(
+      { itemSelector: '.product', fields: { title: {} }, nextSelector: '.next', maxPages: 2 },
+      mockContext
+    );
+    const items = await extractTool.execute(
+      { itemSelector: '.product', fields: { title: {} }, nextSelector: '.next', maxItems: 3 },
+      mockContext
+    );
+
+    expect(pages.content[0].text).toBe('Extracted 4 items from 2 pages');
+    expect(items.content[0].text).toBe('Extracted 3 items from 2 pages');
+  });
+
+  test('should stop when the items do not change after clicking next', async () => {
+    mockEvaluateAll.mockResolvedValue([{ title: 'Lamp' }]);
+    mockWaitForFunction.mockRejectedValueOnce(new Error('Timeout 500ms exceeded'));
+
+    const result = await extractTool.execute(
+      { itemSelector: '.product', fields: { title: {} }, nextSelector: '.next', pageTimeout: 500 },
+      mockContext
+    );
+
+    expect(result.content[0].text).toBe('Extracted 1 item from 1 page (the items did not change within 500ms of clicking next)');
+  });
+
+  test('should reject an invalid schema before touching the page', async () => {
+    const result = await extractTool.execute({ fields: { link: { mode: 'attribute' } } }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Invalid fields: link: attribute mode needs an attribute');
+    expect(mockEvaluateAll).not.toHaveBeenCalled();
+  });
+
+  test('should need a next selector for several pages', async () => {
+    const result = await extractTool.execute({ fields: { title: {} }, maxPages: 3 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('nextSelector');
+  });
+});
@@ -1,4 +1,4 @@
-import { ClickTool, FillTool, SelectTool, HoverTool, EvaluateTool, IframeClickTool } from '../../../tools/browser/interaction.js';
+import { ClickTool, FillTool, SelectTool, HoverTool, EvaluateTool, IframeClickTool, CheckTool, UncheckTool, ClickAtTool, MouseWheelTool, DragTool, PressKeyTool, TypeTool, KeyDownTool, KeyUpTool } from '../../../tools/browser/interaction.js';
 import { NavigationTool } from '../../../tools/browser/navigation.js';
 import { ToolContext } from '../../../tools/common/types.js';
 import { Page, Browser } from 'playwright';
@@ -16,20 +16,67 @@ const mockLocatorClick = jest.fn().mockImplementation(() => Promise.resolve());
 const mockLocatorFill = jest.fn().mockImplementation(() => Promise.resolve());
 const mockLocatorSelectOption = jest.fn().mockImplementation(() => Promise.resolve());
 const mockLocatorHover = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorPress = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorPressSequentially = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorClear = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorFocus = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorScrollIntoView = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorSetChecked = jest.fn().mockImplementation(() => Promise.resolve());
+const mockLocatorIsChecked = jest.fn().mockImplementation(() => Promise.resolve(true));
+const mockLocatorCount = jest.fn().mockImplementation(() => Promise.resolve(1));
+const mockLocatorBoundingBox = jest.fn().mockImplementation(() => Promise.resolve({ x: 100, y: 200, width: 50, height: 20 }));
 
 // Mock locator
 const mockLocator = jest.fn().mockReturnValue({
   click: mockLocatorClick,
   fill: mockLocatorFill,
   selectOption: mockLocatorSelectOption,
-  hover: mockLocatorHover
+  hover: mockLocatorHover,
+  press: mockLocatorPress,
+  pressSequentially: mockLocatorPressSequentially,
+  clear: mockLocatorClear,
+  focus: mockLocatorFocus,
+  scrollIntoViewIfNeeded: mockLocatorScrollIntoView,
+  boundingBox: mockLocatorBoundingBox,
+  setChecked: mockLocatorSetChecked,
+  isChecked: mockLocatorIsChecked,
+  count: mockLocatorCount
 });
 
+// Mock locator found by role, matching a single element
+const mockRoleLocator = {
+  count: jest.fn().mockImplementation(() => Promise.resolve(1)),
+  click: mockLocatorClick,
+  fill: mockLocatorFill,
+  selectOption: mockLocatorSelectOption,
+  hover: mockLocatorHover
+};
+const mockGetByRole = jest.fn().mockReturnValue(mockRoleLocator);
+
 // Mock iframe locator
 const mockIframeLocator = jest.fn().mockReturnValue({
-  click: mockLocatorClick
+  click: mockLocatorClick,
+  press: mockLocatorPress
 });
 
+// Mock keyboard
+const mockKeyboard = {
+  press: jest.fn().mockImplementation(() => Promise.resolve()),
+  type: jest.fn().mockImplementation(() => Promise.resolve()),
+  down: jest.fn().mockImplementation(() => Promise.resolve()),
+  up: jest.fn().mockImplementation(() => Promise.resolve())
+};
+
+// Mock mouse
+const mockMouse = {
+  click: jest.fn().mockImplementation(() => Promise.resolve()),
+  move: jest.fn().mockImplementation(() => Promise.resolve()),
+  down: jest.fn().mockImplementation(() => Promise.resolve()),
+  up: jest.fn().mockImplementation(() => Promise.resolve()),
+  wheel: jest.fn().mockImplementation(() => Promise.resolve())
+};
+const mockDragAndDrop = jest.fn().mockImplementation(() => Promise.resolve());
+
 // Mock frame locator
 const mockFrameLocator = jest.fn().mockReturnValue({
   locator: mockIframeLocator
@@ -49,7 +96,11 @@ const mockPage = {
   hover: mockPageHover,
   waitForSelector: mockPageWaitForSelector,
   locator: mockLocator,
+  getByRole: mockGetByRole,
   frameLocator: mockFrameLocator,
+  keyboard: mockKeyboard,
+  mouse: mockMouse,
+  dragAndDrop: mockDragAndDrop,
   evaluate: mockEvaluate,
   goto: mockGoto,
   isClosed: mockIsClosed
@@ -100,7 +151,7 @@ describe('Browser Interaction Tools', () => {
       const result = await clickTool.execute(args, mockContext);
 
       // The actual implementation uses page.click directly, not locator
-      expect(mockPageClick).toHaveBeenCalledWith('#test-button');
+      expect(mockPageClick).toHaveBeenCalledWith('#test-button', {});
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Clicked element');
     });
@@ -115,11 +166,61 @@ describe('Browser Interaction Tools', () => {
 
       const result = await clickTool.execute(args, mockContext);
 
-      expect(mockPageClick).toHaveBeenCalledWith('#test-button');
+      expect(mockPageClick).toHaveBeenCalledWith('#test-button', {});
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Operation failed');
     });
 
+    test('should click an element found by role', async () => {
+      const result = await clickTool.execute({ locator: { role: 'button', name: 'Save' } }, mockContext);
+
+      expect(mockGetByRole).toHaveBeenCalledWith('button', { name: 'Save' });
+      expect(mockLocatorClick).toHaveBeenCalledWith({});
+      expect(mockPageClick).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Clicked element: role "button" named "Save"');
+    });
+
+    test('should list the candidates of an ambiguous locator', async () => {
+      const mockEvaluateCandidate = jest.fn<() => Promise<string>>()
+        .mockResolvedValueOnce('<button id="save"> "Save"')
+        .mockResolvedValueOnce('<button> "Save draft"');
+      mockRoleLocator.count.mockImplementationOnce(() => Promise.resolve(2));
+      (mockRoleLocator as any).nth = jest.fn().mockReturnValue({ evaluate: mockEvaluateCandidate });
+
+      const result = await clickTool.execute({ locator: { role: 'button', name: 'Save' } }, mockContext);
+
+      expect(mockLocatorClick).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Locator role "button" named "Save" matches 2 elements');
+      expect(result.content[0].text).toContain('  [0] <button id="save"> "Save"');
+      expect(result.content[0].text).toContain('  [1] <button> "Save draft"');
+    });
+
+    test('should click an element by its snapshot ref', async () => {
+      const result = await clickTool.execute({ ref: 'e42' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('aria-ref=e42');
+      expect(mockLocatorClick).toHaveBeenCalledWith({});
+      expect(result.content[0].text).toBe('Clicked element: ref e42');
+    });
+
+    test('should report a ref that is no longer in the page', async () => {
+      mockLocatorCount.mockImplementationOnce(() => Promise.resolve(0));
+
+      const result = await clickTool.execute({ ref: 'e42' }, mockContext);
+
+      expect(mockLocatorClick).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Element e42 is not in the latest snapshot');
+    });
+
+    test('should require a selector, locator or ref', async () => {
+      const result = await clickTool.execute({}, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('selector, locator or ref');
+    });
+
     test('should handle missing page', async () => {
       const args = {
         selector: '#test-button'
@@ -133,6 +234,87 @@ describe('Browser Interaction Tools', () => {
     });
   });
 
+  describe('Mouse tools', () => {
+    test('should click with options', async () => {
+      const result = await clickTool.execute(
+        { selector: '#card', button: 'right', clickCount: 2, modifiers: ['Shift'], position: { x: 5, y: 10 } },
+        mockContext
+      );
+
+      expect(mockPageClick).toHaveBeenCalledWith('#card', {
+        button: 'right',
+        clickCount: 2,
+        modifiers: ['Shift'],
+        position: { x: 5, y: 10 }
+      });
+      expect(result.content[0].text).toBe('Clicked element: #card (right button, 2 clicks, holding Shift, at offset 5,10)');
+    });
+
+    test('should only check a trial click', async () => {
+      const result = await clickTool.execute({ selector: '#card', trial: true }, mockContext);
+
+      expect(mockPageClick).toHaveBeenCalledWith('#card', { trial: true });
+      expect(result.content[0].text).toBe('Element is clickable: #card');
+    });
+
+    test('should click at coordinates holding modifiers', async () => {
+      const result = await new ClickAtTool(mockServer).execute({ x: 300, y: 150, clickCount: 2, modifiers: ['Alt'] }, mockContext);
+
+      expect(mockKeyboard.down).toHaveBeenCalledWith('Alt');
+      expect(mockMouse.click).toHaveBeenCalledWith(300, 150, { clickCount: 2 });
+      expect(mockKeyboard.up).toHaveBeenCalledWith('Alt');
+      expect(result.content[0].text).toBe('Clicked at 300,150 (2 clicks, holding Alt)');
+    });
+
+    test('should release modifiers when a click fails', async () => {
+      mockMouse.click.mockImplementationOnce(() => Promise.reject(new Error('Click failed')));
+
+      const result = await new ClickAtTool(mockServer).execute({ x: 1, y: 2, modifiers: ['Shift'] }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(mockKeyboard.up).toHaveBeenCalledWith('Shift');
+    });
+
+    test('should scroll with the mouse wheel over a point', async () => {
+      const result = await new MouseWheelTool(mockServer).execute({ deltaY: 400, x: 10, y: 20 }, mockContext);
+
+      expect(mockMouse.move).toHaveBeenCalledWith(10, 20);
+      expect(mockMouse.wheel).toHaveBeenCalledWith(0, 400);
+      expect(result.content[0].text).toBe('Scrolled by 0,400 at 10,20');
+    });
+
+    test('should require a scroll distance', async () => {
+      const result = await new MouseWheelTool(mockServer).execute({}, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(mockMouse.wheel).not.toHaveBeenCalled();
+    });
+
+    test('should drag between elements', async () => {
+      const result = await new DragTool(mockServer).execute({ sourceSelector: '#card', targetSelector: '#done' }, mockContext);
+
+      expect(mockDragAndDrop).toHaveBeenCalledWith('#card', '#done', {});
+      expect(result.content[0].text).toBe('Dragged #card to #done');
+    });
+
+    test('should drag from an element to a point with mouse moves', async () => {
+      const result = await new DragTool(mockServer).execute({ sourceSelector: '#marker', targetX: 400, targetY: 300, steps: 5 }, mockContext);
+
+      expect(mockMouse.move).toHaveBeenNthCalledWith(1, 125, 210);
+      expect(mockMouse.down).toHaveBeenCalled();
+      expect(mockMouse.move).toHaveBeenNthCalledWith(2, 400, 300, { steps: 5 });
+      expect(mockMouse.up).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Dragged #marker to 400,300');
+    });
+
+    test('should require a drag target', async () => {
+      const result = await new DragTool(mockServer).execute({ sourceSelector: '#card' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Missing drag target');
+    });
+  });
+
   describe('IframeClickTool', () => {
     test('should click an element in an iframe', async () => {
       const args = {
@@ -150,6 +332,71 @@ describe('Browser Interaction Tools', () => {
     });
   });
 
+  describe('Keyboard tools', () => {
+    test('should press a key on the focused element', async () => {
+      const result = await new PressKeyTool(mockServer).execute({ key: 'Control+A' }, mockContext);
+
+      expect(mockKeyboard.press).toHaveBeenCalledWith('Control+A', { delay: undefined });
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toBe('Pressed Control+A on the focused element');
+    });
+
+    test('should press a key on an element inside an iframe', async () => {
+      const result = await new PressKeyTool(mockServer).execute(
+        { key: 'Enter', selector: '#search', iframeSelector: '#frame' },
+        mockContext
+      );
+
+      expect(mockFrameLocator).toHaveBeenCalledWith('#frame');
+      expect(mockIframeLocator).toHaveBeenCalledWith('#search');
+      expect(mockLocatorPress).toHaveBeenCalledWith('Enter', { delay: undefined });
+      expect(result.content[0].text).toBe('Pressed Enter on #search inside iframe #frame');
+    });
+
+    test('should press a key on an element by its snapshot ref', async () => {
+      const result = await new PressKeyTool(mockServer).execute({ key: 'Enter', ref: 'e3' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('aria-ref=e3');
+      expect(mockLocatorPress).toHaveBeenCalledWith('Enter', { delay: undefined });
+      expect(result.content[0].text).toBe('Pressed Enter on ref e3');
+    });
+
+    test('should require a selector with an iframe selector', async () => {
+      const result = await new PressKeyTool(mockServer).execute({ key: 'Enter', iframeSelector: '#frame' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(mockKeyboard.press).not.toHaveBeenCalled();
+    });
+
+    test('should type into an element after clearing it', async () => {
+      const result = await new TypeTool(mockServer).execute(
+        { text: '4242', selector: '#card', delay: 50, clear: true },
+        mockContext
+      );
+
+      expect(mockLocatorClear).toHaveBeenCalled();
+      expect(mockLocatorPressSequentially).toHaveBeenCalledWith('4242', { delay: 50 });
+      expect(result.content[0].text).toBe('Typed "4242" into #card');
+    });
+
+    test('should type into the focused element', async () => {
+      await new TypeTool(mockServer).execute({ text: 'hello' }, mockContext);
+
+      expect(mockKeyboard.type).toHaveBeenCalledWith('hello', { delay: undefined });
+    });
+
+    test('should hold and release a key', async () => {
+      const down = await new KeyDownTool(mockServer).execute({ key: 'Shift', selector: '#list' }, mockContext);
+      const up = await new KeyUpTool(mockServer).execute({ key: 'Shift' }, mockContext);
+
+      expect(mockLocatorFocus).toHaveBeenCalled();
+      expect(mockKeyboard.down).toHaveBeenCalledWith('Shift');
+      expect(mockKeyboard.up).toHaveBeenCalledWith('Shift');
+      expect(down.content[0].text).toBe('Holding Shift down on #list');
+      expect(up.content[0].text).toBe('Released Shift on the focused element');
+    });
+  });
+
   describe('FillTool', () => {
     test('should fill an input field', async () => {
       const args = {
@@ -164,6 +411,14 @@ describe('Browser Interaction Tools', () => {
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Filled');
     });
+
+    test('should fill an input found by role', async () => {
+      const result = await fillTool.execute({ locator: { role: 'textbox', name: 'Email' }, value: 'a@b.c' }, mockContext);
+
+      expect(mockLocatorFill).toHaveBeenCalledWith('a@b.c');
+      expect(mockPageFill).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Filled role "textbox" named "Email" with: a@b.c');
+    });
   });
 
   describe('SelectTool', () => {
@@ -180,6 +435,66 @@ describe('Browser Interaction Tools', () => {
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Selected');
     });
+
+    test('should select several options by value, label and index', async () => {
+      mockPageSelectOption.mockImplementationOnce(() => Promise.resolve(['red', 'green', 'blue']));
+
+      const result = await selectTool.execute(
+        { selector: '#colors', values: ['red'], labels: ['Green'], indexes: [2] },
+        mockContext
+      );
+
+      expect(mockPageSelectOption).toHaveBeenCalledWith('#colors', [{ value: 'red' }, { label: 'Green' }, { index: 2 }]);
+      expect(result.content[0].text).toBe('Selected #colors with: red, green, blue');
+    });
+
+    test('should select options of a select found by role', async () => {
+      mockLocatorSelectOption.mockImplementationOnce(() => Promise.resolve(['red', 'blue']));
+
+      const result = await selectTool.execute(
+        { locator: { role: 'listbox', name: 'Colors' }, values: ['red', 'blue'] },
+        mockContext
+      );
+
+      expect(mockLocatorSelectOption).toHaveBeenCalledWith([{ value: 'red' }, { value: 'blue' }]);
+      expect(mockPageWaitForSelector).not.toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Selected role "listbox" named "Colors" with: red, blue');
+    });
+
+    test('should require something to select', async () => {
+      const result = await selectTool.execute({ selector: '#colors' }, mockContext);
+
+      expect(result.isError).toBe(true);
+      expect(mockPageSelectOption).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Checkbox tools', () => {
+    test('should check a checkbox and verify it', async () => {
+      const result = await new CheckTool(mockServer).execute({ selector: '#terms' }, mockContext);
+
+      expect(mockLocatorSetChecked).toHaveBeenCalledWith(true, {});
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toBe('Checked #terms');
+    });
+
+    test('should check a checkbox by its snapshot ref', async () => {
+      const result = await new CheckTool(mockServer).execute({ ref: 'e7' }, mockContext);
+
+      expect(mockLocator).toHaveBeenCalledWith('aria-ref=e7');
+      expect(mockLocatorSetChecked).toHaveBeenCalledWith(true, {});
+      expect(result.content[0].text).toBe('Checked ref e7');
+    });
+
+    test('should report a checkbox that stays checked', async () => {
+      mockLocatorIsChecked.mockImplementationOnce(() => Promise.resolve(true));
+
+      const result = await new UncheckTool(mockServer).execute({ selector: '#newsletter', force: true }, mockContext);
+
+      expect(mockLocatorSetChecked).toHaveBeenCalledWith(false, { force: true });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('#newsletter is still checked');
+    });
   });
 
   describe('HoverTool', () => {
@@ -195,6 +510,14 @@ describe('Browser Interaction Tools', () => {
       expect(result.isError).toBe(false);
       expect(result.content[0].text).toContain('Hovered');
     });
+
+    test('should hover over an element found by role', async () => {
+      const result = await hoverTool.execute({ locator: { role: 'menuitem', name: 'File', exact: true } }, mockContext);
+
+      expect(mockGetByRole).toHaveBeenCalledWith('menuitem', { name: 'File', exact: true });
+      expect(mockLocatorHover).toHaveBeenCalled();
+      expect(result.content[0].text).toBe('Hovered role "menuitem" named "File", exact');
+    });
   });
 
   describe('EvaluateTool', () => {
@@ -0,0 +1,86 @@
+import { buildLocator, describeLocator, locateUnique } from '../../../tools/browser/locators.js';
+import { Page } from 'playwright';
+import { jest } from '@jest/globals';
+
+// Fake locator recording the chain of calls that built it
+function fakeLocator(path: string, count = 1): any {
+  return {
+    path,
+    count: jest.fn().mockImplementation(() => Promise.resolve(count)),
+    filter: (options: any) => fakeLocator(`${path}.filter(${JSON.stringify(options, (key, value) => value?.path ?? value)})`, count),
+    nth: (index: number) => ({
+      ...fakeLocator(`${path}.nth(${index})`),
+      evaluate: () => Promise.resolve(`<li> "Item ${index}"`)
+    }),
+    first: () => fakeLocator(`${path}.first()`),
+    last: () => fakeLocator(`${path}.last()`)
+  };
+}
+
+function fakeRoot(count = 1): Page {
+  const strategy = (name: string) => (...args: any[]) =>
+    fakeLocator(`${name}(${args.map((arg) => JSON.stringify(arg)).join(', ')})`, count);
+  return {
+    getByRole: strategy('getByRole'),
+    getByText: strategy('getByText'),
+    getByLabel: strategy('getByLabel'),
+    getByPlaceholder: strategy('getByPlaceholder'),
+    getByTestId: strategy('getByTestId'),
+    getByAltText: strategy('getByAltText'),
+    locator: strategy('locator')
+  } as unknown as Page;
+}
+
+describe('Locators', () => {
+  test('should build a locator from each strategy', () => {
+    const root = fakeRoot();
+
+    expect((buildLocator(root, { role: 'button', name: 'Save' }) as any).path).toBe('getByRole("button", {"name":"Save"})');
+    expect((buildLocator(root, { text: 'Welcome', exact: true }) as any).path).toBe('getByText("Welcome", {"exact":true})');
+    expect((buildLocator(root, { label: 'Email' }) as any).path).toBe('getByLabel("Email", {})');
+    expect((buildLocator(root, { testId: 'submit' }) as any).path).toBe('getByTestId("submit")');
+    expect((buildLocator(root, { selector: '.item' }) as any).path).toBe('locator(".item")');
+  });
+
+  test('should apply filters and pick a match', () => {
+    const locator = buildLocator(fakeRoot(), {
+      role: 'listitem',
+      filter: [{ hasText: 'Product 2' }, { has: { role: 'button', name: 'Add' } }],
+      nth: 1
+    }) as any;
+
+    expect(locator.path).toBe(
+      'getByRole("listitem", {}).filter({"hasText":"Product 2"})' +
+      '.filter({"has":"getByRole(\\"button\\", {\\"name\\":\\"Add\\"})"}).nth(1)'
+    );
+  });
+
+  test('should need exactly one strategy', () => {
+    expect(() => buildLocator(fakeRoot(), { exact: true })).toThrow('A locator needs one of');
+    expect(() => buildLocator(fakeRoot(), { role: 'button', text: 'Save' })).toThrow('A locator takes only one of role, text');
+  });
+
+  test('should describe a locator', () => {
+    expect(describeLocator({
+      role: 'listitem',
+      filter: [{ hasText: 'Product 2' }, { hasNot: { text: 'Sold out' } }],
+      last: true
+    })).toBe('role "listitem", having text "Product 2", not containing text "Sold out", last match');
+  });
+
+  test('should return a locator matching at most one element', async () => {
+    const locator = await locateUnique(fakeRoot(0), { label: 'Email' });
+
+    expect((locator as any).path).toBe('getByLabel("Email", {})');
+  });
+
+  test('should list the candidates when several elements match', async () => {
+    await expect(locateUnique(fakeRoot(12), { role: 'listitem' })).rejects.toThrow(
+      [
+        'Locator role "listitem" matches 12 elements. Narrow it down with name, exact, filter or nth:',
+        ...Array.from({ length: 10 }, (_, index) => `  [${index}] <li> "Item ${index}"`),
+        '  ... and 2 more'
+      ].join('\n')
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { NavigationTool } from '../../../tools/browser/navigation.js';
+import { NavigationTool, GoBackTool, GoForwardTool, ReloadTool } from '../../../tools/browser/navigation.js';
 import { ToolContext } from '../../../tools/common/types.js';
 import { Page, Browser } from 'playwright';
 import { jest } from '@jest/globals';
@@ -8,8 +8,21 @@ const mockGoto = jest.fn();
 mockGoto.mockImplementation(() => Promise.resolve());
 const mockIsClosed = jest.fn().mockReturnValue(false);
 
+// Mock history navigation
+const mockResponse = { status: () => 200, statusText: () => 'OK' };
+const mockGoBack = jest.fn<() => Promise<typeof mockResponse | null>>();
+const mockGoForward = jest.fn<() => Promise<typeof mockResponse | null>>();
+const mockReload = jest.fn<() => Promise<typeof mockResponse | null>>();
+const mockUrl = jest.fn().mockReturnValue('https://example.com/step-1');
+const mockTitle = jest.fn().mockImplementation(() => Promise.resolve('Step 1'));
+
 const mockPage = {
   goto: mockGoto,
+  goBack: mockGoBack,
+  goForward: mockGoForward,
+  reload: mockReload,
+  url: mockUrl,
+  title: mockTitle,
   isClosed: mockIsClosed
 } as unknown as Page;
 
@@ -130,6 +143,31 @@ describe('NavigationTool', () => {
     expect(result.content[0].text).toContain('Browser is not connected');
   });
   
+  test('should keep the session when the tab closes during navigation', async () => {
+    const resetBrowserState = jest.fn();
+    mockGoto.mockImplementationOnce(() => Promise.reject(new Error('Target page, context or browser has been closed')));
+
+    const result = await navigationTool.execute({ url: 'https://example.com' }, { ...mockContext, resetBrowserState });
+
+    expect(resetBrowserState).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('The tab or context was closed');
+  });
+
+  test('should reset the session when the browser disconnects during navigation', async () => {
+    const resetBrowserState = jest.fn();
+    mockGoto.mockImplementationOnce(() => {
+      mockIsConnected.mockReturnValue(false);
+      return Promise.reject(new Error('Target page, context or browser has been closed'));
+    });
+
+    const result = await navigationTool.execute({ url: 'https://example.com' }, { ...mockContext, resetBrowserState });
+
+    expect(resetBrowserState).toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Connection has been reset');
+  });
+
   test('should handle closed page', async () => {
     const args = {
       url: 'https://example.com'
@@ -144,4 +182,67 @@ describe('NavigationTool', () => {
     expect(result.isError).toBe(true);
     expect(result.content[0].text).toContain('Page is not available or has been closed');
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('History tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockIsConnected.mockReturnValue(true);
+    mockIsClosed.mockReturnValue(false);
+  });
+
+  test('should go back and report where it landed', async () => {
+    mockUrl.mockReturnValueOnce('https://example.com/step-2');
+    mockGoBack.mockResolvedValueOnce(mockResponse);
+
+    const result = await new GoBackTool(mockServer).execute({ waitUntil: 'domcontentloaded' }, mockContext);
+
+    expect(mockGoBack).toHaveBeenCalledWith({ timeout: 30000, waitUntil: 'domcontentloaded' });
+    expect(result.isError).toBe(false);
+    expect(result.content.map((item) => item.text)).toEqual([
+      'Went back',
+      'URL: https://example.com/step-1',
+      'Title: Step 1',
+      'Status: 200 OK'
+    ]);
+  });
+
+  test('should report when there is no page to go back to', async () => {
+    mockGoBack.mockResolvedValueOnce(null);
+
+    const result = await new GoBackTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('There is no previous page in the history of https://example.com/step-1');
+  });
+
+  test('should go forward to a page restored without a request', async () => {
+    mockUrl.mockReturnValueOnce('https://example.com/step-0');
+    mockGoForward.mockResolvedValueOnce(null);
+
+    const result = await new GoForwardTool(mockServer).execute({ timeout: 5000 }, mockContext);
+
+    expect(mockGoForward).toHaveBeenCalledWith({ timeout: 5000, waitUntil: 'load' });
+    expect(result.isError).toBe(false);
+    expect(result.content[3].text).toBe('Status: none (no new document was requested)');
+  });
+
+  test('should reload the page', async () => {
+    mockReload.mockResolvedValueOnce(mockResponse);
+
+    const result = await new ReloadTool(mockServer).execute({}, mockContext);
+
+    expect(mockReload).toHaveBeenCalledWith({ timeout: 30000, waitUntil: 'load' });
+    expect(result.content[0].text).toBe('Reloaded');
+    expect(result.content[3].text).toBe('Status: 200 OK');
+  });
+
+  test('should handle navigation errors', async () => {
+    mockReload.mockRejectedValueOnce(new Error('net::ERR_CONNECTION_REFUSED'));
+
+    const result = await new ReloadTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Operation failed: net::ERR_CONNECTION_REFUSED');
+  });
+});
@@ -0,0 +1,63 @@
+import { SaveProfileTool } from '../../../tools/browser/profiles.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { ProfileStore } from '../../../profiles.js';
+import { Page, Browser, BrowserContext } from 'playwright';
+import { jest } from '@jest/globals';
+
+const browserContext = {} as BrowserContext;
+
+const mockPage = {
+  context: jest.fn().mockReturnValue(browserContext),
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendResourceListChanged: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+const mockSave = jest.fn<ProfileStore['save']>();
+const mockProfiles = { save: mockSave } as unknown as ProfileStore;
+
+describe('SaveProfileTool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should save the active context and announce the new resource', async () => {
+    mockSave.mockResolvedValue({ path: '/profiles/buyer.json', cookies: 2, origins: 1 });
+
+    const result = await new SaveProfileTool(mockServer, mockProfiles).execute({ name: 'buyer' }, mockContext);
+
+    expect(mockSave).toHaveBeenCalledWith('buyer', browserContext);
+    expect(mockServer.sendResourceListChanged).toHaveBeenCalled();
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Saved profile "buyer" with 2 cookies and localStorage for 1 origins');
+    expect(result.content[2].text).toBe('Resource: profile://buyer');
+  });
+
+  test('should report invalid profile names', async () => {
+    mockSave.mockRejectedValue(new Error('Invalid profile name: ../x'));
+
+    const result = await new SaveProfileTool(mockServer, mockProfiles).execute({ name: '../x' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Invalid profile name');
+  });
+
+  test('should fail without a profile store', async () => {
+    const result = await new SaveProfileTool(mockServer).execute({ name: 'buyer' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Storage state profiles are not configured');
+  });
+});
@@ -0,0 +1,77 @@
+import { SnapshotTool } from '../../../tools/browser/snapshot.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+const PAGE_SNAPSHOT = [
+  '- heading "Sign in" [level=1] [ref=e2]',
+  '- textbox "Email" [ref=e3]: ada@example.com',
+  '- checkbox "Remember me" [checked] [ref=e4]',
+  '- button "Continue" [disabled] [ref=e5]'
+].join('\n');
+
+const mockPageAriaSnapshot = jest.fn().mockImplementation(() => Promise.resolve(PAGE_SNAPSHOT));
+const mockLocatorAriaSnapshot = jest.fn().mockImplementation(() => Promise.resolve('- button "Continue" [ref=e5]'));
+const mockLocator = jest.fn().mockReturnValue({ ariaSnapshot: mockLocatorAriaSnapshot });
+
+const mockPage = {
+  ariaSnapshot: mockPageAriaSnapshot,
+  locator: mockLocator,
+  url: jest.fn().mockReturnValue('https://example.com/login'),
+  title: jest.fn().mockImplementation(() => Promise.resolve('Sign in')),
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+// All lines of a tool response
+const text = (result: { content: any[] }) => result.content.map((item) => item.text).join('\n');
+
+describe('SnapshotTool', () => {
+  let snapshotTool: SnapshotTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    snapshotTool = new SnapshotTool(mockServer);
+  });
+
+  test('should capture the accessibility tree of the page with refs', async () => {
+    const result = await snapshotTool.execute({}, mockContext);
+
+    expect(mockPageAriaSnapshot).toHaveBeenCalledWith({ mode: 'ai' });
+    expect(result.isError).toBe(false);
+    expect(text(result)).toContain('Page URL: https://example.com/login');
+    expect(text(result)).toContain('Page title: Sign in');
+    expect(text(result)).toContain('- button "Continue" [disabled] [ref=e5]');
+  });
+
+  test('should limit the snapshot to an element and depth', async () => {
+    const result = await snapshotTool.execute({ selector: 'form', depth: 2 }, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('form');
+    expect(mockLocatorAriaSnapshot).toHaveBeenCalledWith({ mode: 'ai', depth: 2 });
+    expect(mockPageAriaSnapshot).not.toHaveBeenCalled();
+    expect(text(result)).toContain('Scope: form');
+  });
+
+  test('should handle snapshot errors', async () => {
+    mockPageAriaSnapshot.mockImplementationOnce(() => Promise.reject(new Error('Target closed')));
+
+    const result = await snapshotTool.execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain('Target closed');
+  });
+});
@@ -0,0 +1,161 @@
+import { ExtractTableTool, columnNames, toCsv, TableGrid } from '../../../tools/browser/table.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Orders table with a two row header; "Amount" spans the Net and Tax columns
+const ORDERS: TableGrid = {
+  headerRows: 2,
+  rows: [
+    ['Order', 'Amount', 'Amount', 'Status'],
+    ['Order', 'Net', 'Tax', 'Status'],
+    ['1001', '10.00', '2.00', 'Paid'],
+    ['1002', '5.50', '1.10', 'Refunded, partly'],
+    ['1003', '7.00', '1.40', 'Paid']
+  ]
+};
+
+const mockCount = jest.fn<() => Promise<number>>();
+const mockEvaluate = jest.fn<() => Promise<TableGrid>>();
+const mockLocator = jest.fn().mockReturnValue({ count: mockCount, evaluate: mockEvaluate });
+
+const mockPage = {
+  locator: mockLocator,
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('columnNames', () => {
+  test('should join stacked headers and name unnamed columns', () => {
+    expect(columnNames(ORDERS)).toEqual(['Order', 'Amount / Net', 'Amount / Tax', 'Status']);
+    expect(columnNames({ headerRows: 0, rows: [['a', 'b']] })).toEqual(['Column 1', 'Column 2']);
+  });
+
+  test('should make repeated names unique', () => {
+    expect(columnNames({ headerRows: 1, rows: [['Date', 'Date', '']] })).toEqual(['Date', 'Date (2)', 'Column 3']);
+  });
+});
+
+describe('toCsv', () => {
+  test('should quote values with commas, quotes and line breaks', () => {
+    expect(toCsv(['Name', 'Note'], [['Ada', 'said "hi", twice'], ['Bob', 'line\nbreak']])).toBe(
+      'Name,Note\nAda,"said ""hi"", twice"\nBob,"line\nbreak"'
+    );
+  });
+});
+
+describe('ExtractTableTool', () => {
+  let tableTool: ExtractTableTool;
+  let downloadsDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    downloadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tables-'));
+    tableTool = new ExtractTableTool(mockServer, downloadsDir);
+    mockCount.mockResolvedValue(1);
+    mockEvaluate.mockResolvedValue(structuredClone(ORDERS));
+  });
+
+  afterEach(() => {
+    fs.rmSync(downloadsDir, { recursive: true, force: true });
+  });
+
+  test('should return rows keyed by header', async () => {
+    const result = await tableTool.execute({ selector: '#orders' }, mockContext);
+
+    expect(mockLocator).toHaveBeenCalledWith('#orders');
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Table with 3 rows and 4 columns: Order, Amount / Net, Amount / Tax, Status');
+    expect(JSON.parse(result.content[1].text as string)[1]).toEqual({
+      'Order': '1002',
+      'Amount / Net': '5.50',
+      'Amount / Tax': '1.10',
+      'Status': 'Refunded, partly'
+    });
+  });
+
+  test('should page through the rows as CSV', async () => {
+    const result = await tableTool.execute({ format: 'csv', offset: 1, limit: 1 }, mockContext);
+
+    expect(result.content[0].text).toBe(
+      'Table with 3 rows and 4 columns: Order, Amount / Net, Amount / Tax, Status. Rows 1-2; call again with offset 2 for the next rows'
+    );
+    expect(result.content[1].text).toBe('Order,Amount / Net,Amount / Tax,Status\n1002,5.50,1.10,"Refunded, partly"');
+  });
+
+  test('should save the whole table to a file', async () => {
+    const result = await tableTool.execute({ format: 'csv', limit: 1, saveAs: 'orders.csv' }, mockContext);
+
+    const saved = fs.readFileSync(path.join(downloadsDir, 'orders.csv'), 'utf8');
+    expect(saved.split('\n')).toHaveLength(4);
+    expect(result.content[1].text).toContain('Saved 3 rows to:');
+  });
+
+  test('should refuse a saveAs path with directories', async () => {
+    const result = await tableTool.execute({ saveAs: '../orders.csv' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(mockLocator).not.toHaveBeenCalled();
+  });
+
+  test('should refuse to write through a symbolic link in the output directory', async () => {
+    const outside = path.join(os.tmpdir(), `outside-${Date.now()}.csv`);
+    fs.symlinkSync(outside, path.join(downloadsDir, 'link.csv'));
+
+    const result = await tableTool.execute({ saveAs: 'link.csv' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('saveAs names a symbolic link: link.csv');
+    expect(fs.existsSync(outside)).toBe(false);
+  });
+
+  test('should ignore a per-call output directory', async () => {
+    const elsewhere = fs.mkdtempSync(path.join(os.tmpdir(), 'elsewhere-'));
+
+    await tableTool.execute({ saveAs: 'orders.csv', downloadsDir: elsewhere }, mockContext);
+
+    expect(fs.existsSync(path.join(downloadsDir, 'orders.csv'))).toBe(true);
+    expect(fs.readdirSync(elsewhere)).toEqual([]);
+    fs.rmSync(elsewhere, { recursive: true, force: true });
+  });
+
+  test('should let the caller set the number of header rows', async () => {
+    const result = await tableTool.execute({ headerRows: 1 }, mockContext);
+
+    expect(result.content[0].text).toContain('Table with 4 rows and 4 columns: Order, Amount, Amount (2), Status');
+  });
+
+  test('should ask for a specific selector when several tables match', async () => {
+    mockCount.mockResolvedValueOnce(3);
+
+    const result = await tableTool.execute({}, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('The page matches 3 tables. Pick one with a more specific selector, such as "table >> nth=1"');
+  });
+
+  test('should report a missing table', async () => {
+    mockCount.mockResolvedValueOnce(0);
+
+    const result = await tableTool.execute({ selector: '#missing' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('No table found at #missing');
+  });
+});
@@ -0,0 +1,128 @@
+import { ListTabsTool, NewTabTool, SwitchTabTool, CloseTabTool, WaitForPopupTool } from '../../../tools/browser/tabs.js';
+import { ToolContext, TabManager } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+function createMockPage(title: string, url: string) {
+  return {
+    title: jest.fn<() => Promise<string>>().mockResolvedValue(title),
+    url: jest.fn().mockReturnValue(url),
+    goto: jest.fn<() => Promise<null>>().mockResolvedValue(null),
+    isClosed: jest.fn().mockReturnValue(false)
+  };
+}
+
+const firstPage = createMockPage('Shop', 'https://shop.test/cart');
+const secondPage = createMockPage('Payment', 'https://pay.test/checkout');
+let pages: any[];
+let activeIndex: number;
+
+const mockTabs: TabManager = {
+  list: jest.fn(() => ({ pages: pages as unknown as Page[], activeIndex })),
+  open: jest.fn(async () => {
+    pages.push(secondPage);
+    activeIndex = pages.length - 1;
+    return secondPage as unknown as Page;
+  }),
+  select: jest.fn(async (index: number) => {
+    activeIndex = index;
+    return pages[index] as Page;
+  }),
+  close: jest.fn(async (index?: number) => {
+    pages.splice(index, 1);
+    activeIndex = pages.length - 1;
+  }),
+  waitForPopup: jest.fn(async () => {
+    pages.push(secondPage);
+    activeIndex = pages.length - 1;
+    return secondPage as unknown as Page;
+  })
+};
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: firstPage as unknown as Page,
+  browser: mockBrowser,
+  server: mockServer,
+  tabs: mockTabs
+} as ToolContext;
+
+describe('Tab tools', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pages = [firstPage];
+    activeIndex = 0;
+  });
+
+  test('should list tabs and mark the active one', async () => {
+    pages.push(secondPage);
+    const result = await new ListTabsTool(mockServer).execute({}, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Open tabs (2):');
+    expect(result.content[1].text).toBe('[0] Shop - https://shop.test/cart (active)');
+    expect(result.content[2].text).toBe('[1] Payment - https://pay.test/checkout');
+  });
+
+  test('should open a new tab and navigate it', async () => {
+    const result = await new NewTabTool(mockServer).execute({ url: 'https://pay.test/checkout' }, mockContext);
+
+    expect(mockTabs.open).toHaveBeenCalled();
+    expect(secondPage.goto).toHaveBeenCalledWith('https://pay.test/checkout', { timeout: 30000, waitUntil: 'load' });
+    expect(result.isError).toBe(false);
+    expect(result.content[1].text).toBe('[1] Payment - https://pay.test/checkout (active)');
+  });
+
+  test('should switch tabs', async () => {
+    pages.push(secondPage);
+    const result = await new SwitchTabTool(mockServer).execute({ index: 1 }, mockContext);
+
+    expect(mockTabs.select).toHaveBeenCalledWith(1);
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toBe('Switched to tab 1');
+  });
+
+  test('should report an invalid tab index', async () => {
+    (mockTabs.select as jest.Mock<TabManager['select']>).mockRejectedValueOnce(new Error('No tab at index 5. Open tabs: 0-0'));
+
+    const result = await new SwitchTabTool(mockServer).execute({ index: 5 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No tab at index 5');
+  });
+
+  test('should close the active tab by default', async () => {
+    pages.push(secondPage);
+    activeIndex = 1;
+
+    const result = await new CloseTabTool(mockServer).execute({}, mockContext);
+
+    expect(mockTabs.close).toHaveBeenCalledWith(1);
+    expect(result.isError).toBe(false);
+    expect(result.content[1].text).toBe('Active tab: [0] Shop - https://shop.test/cart (active)');
+  });
+
+  test('should wait for a popup and switch to it', async () => {
+    const result = await new WaitForPopupTool(mockServer).execute({ timeout: 5000 }, mockContext);
+
+    expect(mockTabs.waitForPopup).toHaveBeenCalledWith(5000, true);
+    expect(result.isError).toBe(false);
+    expect(result.content[1].text).toBe('[1] Payment - https://pay.test/checkout (active)');
+  });
+
+  test('should report when no popup opens', async () => {
+    (mockTabs.waitForPopup as jest.Mock<TabManager['waitForPopup']>).mockRejectedValueOnce(new Error('No popup opened within 100ms'));
+
+    const result = await new WaitForPopupTool(mockServer).execute({ timeout: 100 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('No popup opened within 100ms');
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { UploadFileTool } from '../../../tools/browser/upload.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+const mockSetInputFiles = jest.fn().mockImplementation(() => Promise.resolve());
+
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  setInputFiles: mockSetInputFiles
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+describe('UploadFileTool', () => {
+  let tmpDir: string;
+  let uploadDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-test-'));
+    uploadDir = path.join(tmpDir, 'uploads');
+    fs.mkdirSync(path.join(uploadDir, 'docs'), { recursive: true });
+    fs.writeFileSync(path.join(uploadDir, 'docs', 'cv.pdf'), 'pdf');
+    fs.writeFileSync(path.join(tmpDir, 'secret.txt'), 'secret');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('should upload files from the upload directory', async () => {
+    const result = await new UploadFileTool(mockServer, uploadDir).execute(
+      { selector: '#resume', files: ['docs/cv.pdf'] },
+      mockContext
+    );
+
+    expect(mockSetInputFiles).toHaveBeenCalledWith('#resume', [fs.realpathSync(path.join(uploadDir, 'docs', 'cv.pdf'))]);
+    expect(result.isError).toBe(false);
+    expect(result.content.map((item) => item.text)).toEqual(['Set 1 file on #resume:', 'cv.pdf']);
+  });
+
+  test('should refuse files outside the upload directory', async () => {
+    fs.symlinkSync(path.join(tmpDir, 'secret.txt'), path.join(uploadDir, 'link.txt'));
+    const tool = new UploadFileTool(mockServer, uploadDir);
+
+    const traversal = await tool.execute({ selector: '#resume', files: ['../secret.txt'] }, mockContext);
+    const symlink = await tool.execute({ selector: '#resume', files: ['link.txt'] }, mockContext);
+
+    expect(traversal.content[0].text).toBe('File is outside the upload directory: ../secret.txt');
+    expect(symlink.content[0].text).toBe('File is outside the upload directory: link.txt');
+    expect(mockSetInputFiles).not.toHaveBeenCalled();
+  });
+
+  test('should refuse local files without an upload directory', async () => {
+    const result = await new UploadFileTool(mockServer).execute({ selector: '#resume', files: ['cv.pdf'] }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Uploading local files is disabled');
+  });
+
+  test('should upload base64 content', async () => {
+    const result = await new UploadFileTool(mockServer).execute(
+      { selector: '#avatar', contents: [{ name: 'hello.txt', mimeType: 'text/plain', base64: Buffer.from('hello').toString('base64') }] },
+      mockContext
+    );
+
+    expect(mockSetInputFiles).toHaveBeenCalledWith('#avatar', [
+      { name: 'hello.txt', mimeType: 'text/plain', buffer: Buffer.from('hello') }
+    ]);
+    expect(result.content[1].text).toBe('hello.txt (5 bytes)');
+  });
+
+  test('should not mix files and contents', async () => {
+    const result = await new UploadFileTool(mockServer, uploadDir).execute(
+      { selector: '#resume', files: ['docs/cv.pdf'], contents: [{ name: 'a.txt', base64: '' }] },
+      mockContext
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Provide either files or contents, not both');
+  });
+});
@@ -0,0 +1,102 @@
+import { CustomUserAgentTool } from '../../../tools/browser/useragent.js';
+import { ToolContext, ContextManager } from '../../../tools/common/types.js';
+import { Page, Browser, BrowserContext } from 'playwright';
+import { jest } from '@jest/globals';
+
+const browserInfo = {
+  userAgent: 'Bot/1.0',
+  clientHints: { brands: ['Chromium 140'], mobile: false, platform: 'Linux' }
+};
+
+const mockNewPage = {
+  url: jest.fn().mockReturnValue('https://example.com/cart'),
+  evaluate: jest.fn(async () => browserInfo)
+} as unknown as Page;
+
+const mockPage = {
+  isClosed: jest.fn().mockReturnValue(false),
+  evaluate: jest.fn<() => Promise<string>>()
+} as unknown as Page;
+
+const mockContexts = {
+  recreate: jest.fn<ContextManager['recreate']>()
+};
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer,
+  contexts: mockContexts as unknown as ContextManager
+} as ToolContext;
+
+describe('CustomUserAgentTool', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockContexts.recreate.mockImplementation(async (changes) => ({
+      name: 'default',
+      settings: changes,
+      context: { pages: () => [mockNewPage] } as unknown as BrowserContext
+    }));
+  });
+
+  test('should recreate the context with the new user agent', async () => {
+    (mockPage.evaluate as jest.Mock<any>).mockResolvedValueOnce('Mozilla/5.0 HeadlessChrome');
+
+    const result = await new CustomUserAgentTool(mockServer).execute({ userAgent: 'Bot/1.0' }, mockContext);
+
+    expect(mockContexts.recreate).toHaveBeenCalledWith({ userAgent: 'Bot/1.0' }, { preserveStorage: true, preserveUrl: true });
+    expect(result.isError).toBe(false);
+    expect(result.content.map((item) => item.text)).toEqual([
+      'Recreated context "default" with the new User Agent, keeping its cookies and storage',
+      'Reopened https://example.com/cart',
+      'Effective user agent: Bot/1.0',
+      'Client hints: brands Chromium 140; mobile false; platform Linux'
+    ]);
+  });
+
+  test('should pass on the preservation options', async () => {
+    (mockPage.evaluate as jest.Mock<any>).mockResolvedValueOnce('Mozilla/5.0 HeadlessChrome');
+
+    const result = await new CustomUserAgentTool(mockServer).execute(
+      { userAgent: 'Bot/1.0', preserveStorage: false, preserveUrl: false },
+      mockContext
+    );
+
+    expect(mockContexts.recreate).toHaveBeenCalledWith({ userAgent: 'Bot/1.0' }, { preserveStorage: false, preserveUrl: false });
+    expect(result.content[0].text).toBe('Recreated context "default" with the new User Agent');
+    expect(result.content[1].text).toBe('Effective user agent: Bot/1.0');
+  });
+
+  test('should keep the context when the user agent already matches', async () => {
+    (mockPage.evaluate as jest.Mock<any>)
+      .mockResolvedValueOnce('Bot/1.0')
+      .mockResolvedValueOnce({ userAgent: 'Bot/1.0', clientHints: null });
+
+    const result = await new CustomUserAgentTool(mockServer).execute({ userAgent: 'Bot/1.0' }, mockContext);
+
+    expect(mockContexts.recreate).not.toHaveBeenCalled();
+    expect(result.content.map((item) => item.text)).toEqual([
+      'User Agent already set',
+      'Effective user agent: Bot/1.0',
+      'Client hints: not supported by this browser'
+    ]);
+  });
+
+  test('should report a context that cannot be recreated', async () => {
+    (mockPage.evaluate as jest.Mock<any>).mockResolvedValueOnce('Mozilla/5.0 HeadlessChrome');
+    mockContexts.recreate.mockRejectedValueOnce(new Error('Context "default" is the browser\'s own profile and cannot be recreated; create a new context instead'));
+
+    const result = await new CustomUserAgentTool(mockServer).execute({ userAgent: 'Bot/1.0' }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("browser's own profile");
+  });
+});
@@ -0,0 +1,116 @@
+import { WaitForTool } from '../../../tools/browser/wait.js';
+import { ToolContext } from '../../../tools/common/types.js';
+import { Page, Browser } from 'playwright';
+import { jest } from '@jest/globals';
+
+const mockWaitForSelector = jest.fn<() => Promise<void>>();
+const mockWaitForURL = jest.fn<() => Promise<void>>();
+const mockWaitForLoadState = jest.fn<() => Promise<void>>();
+const mockWaitForFunction = jest.fn<() => Promise<void>>();
+const mockWaitForTimeout = jest.fn<() => Promise<void>>();
+const mockTextWaitFor = jest.fn<() => Promise<void>>();
+const mockGetByText = jest.fn().mockReturnValue({ first: () => ({ waitFor: mockTextWaitFor }) });
+
+const mockPage = {
+  waitForSelector: mockWaitForSelector,
+  waitForURL: mockWaitForURL,
+  waitForLoadState: mockWaitForLoadState,
+  waitForFunction: mockWaitForFunction,
+  waitForTimeout: mockWaitForTimeout,
+  getByText: mockGetByText,
+  url: jest.fn().mockReturnValue('https://example.com/dashboard'),
+  isClosed: jest.fn().mockReturnValue(false)
+} as unknown as Page;
+
+const mockBrowser = {
+  isConnected: jest.fn().mockReturnValue(true)
+} as unknown as Browser;
+
+const mockServer = {
+  sendMessage: jest.fn()
+};
+
+const mockContext = {
+  page: mockPage,
+  browser: mockBrowser,
+  server: mockServer
+} as ToolContext;
+
+// Error Playwright throws when a wait runs out of time
+function timeoutError(): Error {
+  const error = new Error('Timeout 500ms exceeded.');
+  error.name = 'TimeoutError';
+  return error;
+}
+
+describe('WaitForTool', () => {
+  let waitTool: WaitForTool;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    waitTool = new WaitForTool(mockServer);
+  });
+
+  test('should wait for an element to disappear', async () => {
+    const result = await waitTool.execute({ selector: '#spinner', state: 'hidden', timeout: 5000 }, mockContext);
+
+    expect(mockWaitForSelector).toHaveBeenCalledWith('#spinner', { state: 'hidden', timeout: 5000 });
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toMatch(/^Waited \d+ms for #spinner to be hidden$/);
+  });
+
+  test('should wait for the URL by glob or regular expression', async () => {
+    const glob = await waitTool.execute({ url: '**/dashboard' }, mockContext);
+    await waitTool.execute({ urlRegex: '/orders/\\d+$' }, mockContext);
+
+    expect(mockWaitForURL).toHaveBeenNthCalledWith(1, '**/dashboard', { timeout: 30000 });
+    expect(mockWaitForURL).toHaveBeenNthCalledWith(2, /\/orders\/\d+$/, { timeout: 30000 });
+    expect(glob.content[1].text).toBe('Current URL: https://example.com/dashboard');
+  });
+
+  test('should wait for a load state, text and a predicate', async () => {
+    await waitTool.execute({ loadState: 'networkidle' }, mockContext);
+    await waitTool.execute({ text: 'Saved' }, mockContext);
+    await waitTool.execute({ function: 'window.appReady === true', timeout: 1000 }, mockContext);
+
+    expect(mockWaitForLoadState).toHaveBeenCalledWith('networkidle', { timeout: 30000 });
+    expect(mockGetByText).toHaveBeenCalledWith('Saved');
+    expect(mockTextWaitFor).toHaveBeenCalledWith({ state: 'visible', timeout: 30000 });
+    expect(mockWaitForFunction).toHaveBeenCalledWith('window.appReady === true', undefined, { timeout: 1000 });
+  });
+
+  test('should wait for a fixed time', async () => {
+    const result = await waitTool.execute({ time: 250 }, mockContext);
+
+    expect(mockWaitForTimeout).toHaveBeenCalledWith(250);
+    expect(result.content[0].text).toBe('Waited 250ms');
+  });
+
+  test('should explain what timed out', async () => {
+    mockWaitForSelector.mockRejectedValueOnce(timeoutError());
+
+    const result = await waitTool.execute({ selector: '.toast', timeout: 500 }, mockContext);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Timed out after 500ms waiting for .toast to be visible');
+  });
+
+  test('should take exactly one condition', async () => {
+    const none = await waitTool.execute({}, mockContext);
+    const both = await waitTool.execute({ selector: '#a', text: 'b' }, mockContext);
+
+    expect(none.isError).toBe(true);
+    expect(both.content[0].text).toBe('Wait for one condition at a time, not selector and text');
+  });
+
+  test('should reject invalid options', async () => {
+    const state = await waitTool.execute({ url: '**/x', state: 'hidden' }, mockContext);
+    const regex = await waitTool.execute({ urlRegex: '(' }, mockContext);
+    const loadState = await waitTool.execute({ loadState: 'idle' }, mockContext);
+
+    expect(state.content[0].text).toBe('state applies to selector waits only');
+    expect(regex.content[0].text).toContain('Invalid urlRegex');
+    expect(loadState.content[0].text).toBe('loadState must be one of load, domcontentloaded, networkidle');
+    expect(mockWaitForURL).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { v4 as uuidv4 } from "uuid";
+import type { FastMCPSession } from "fastmcp";
+import type { ToolHandler } from "./toolHandler.js";
+
+/**
+ * Identity attached to a FastMCP session.
+ * Tool calls receive it as `context.session`.
+ */
+export type ClientSession = {
+  id: string;
+};
+
+type ClientMetadata = {
+  id: string;
+  connectedAt: number;
+  session?: FastMCPSession<ClientSession>;
+};
+
+/**
+ * Tracks connected clients and owns the lifecycle of their browser sessions.
+ * Each client gets its own ToolHandler session, keyed by its identity.
+ */
+export class ClientRegistry {
+  private clients = new Map<string, ClientMetadata>();
+
+  constructor(private readonly toolHandler: ToolHandler) {}
+
+  /**
+   * Registers a newly connected client and returns its identity
+   * @param id Identity to use, e.g. the MCP session id of a streamable HTTP client
+   */
+  register(id: string = uuidv4()): ClientSession {
+    this.clients.set(id, { id, connectedAt: Date.now() });
+    console.log(`Client connected: ${id}`);
+    return { id };
+  }
+
+  /**
+   * Links the MCP session serving a client, used to send it notifications
+   */
+  attachSession(clientId: string, session: FastMCPSession<ClientSession>): void {
+    const client = this.clients.get(clientId);
+    if (client) {
+      client.session = session;
+    }
+  }
+
+  /**
+   * Returns the MCP server connected to a client, if any
+   */
+  getServer(clientId: string) {
+    return this.clients.get(clientId)?.session?.server;
+  }
+
+  /**
+   * Returns whether the client is still connected
+   */
+  has(clientId: string): boolean {
+    return this.clients.has(clientId);
+  }
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Closes the browser session of a single client
+   */
+  async release(clientId: string): Promise<void> {
+    if (!this.clients.delete(clientId)) {
+      return;
+    }
+
+    try {
+      await this.toolHandler.close(clientId);
+      console.log(`Client disconnected: ${clientId}`);
+    } catch (error) {
+      // Only log if it's not a connection closed error
+      if (
+        error instanceof Error &&
+        !error.message?.includes("Connection closed")
+      ) {
+        console.error(`Error closing session for client ${clientId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Closes the browser sessions of every connected client
+   */
+  async releaseAll(): Promise<void> {
+    await Promise.allSettled(
+      Array.from(this.clients.keys()).map((clientId) => this.release(clientId))
+    );
+  }
+}
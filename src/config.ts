@@ -0,0 +1,329 @@
+import fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { TRANSPORT_TYPES } from "./transport.js";
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Environment variables and CLI flags deliver booleans as strings
+const booleanValue = z.preprocess(
+  (value) =>
+    typeof value === "string" ? !["false", "0", "no", ""].includes(value.toLowerCase()) : value,
+  z.boolean()
+);
+
+// Lists given as a comma separated string outside of config files
+const listValue = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value.split(",").map((item) => item.trim()).filter(Boolean)
+      : value,
+  z.array(z.string())
+);
+
+// Launch options that only change how the browser behaves, not what runs on the host
+const callLaunchOptions = {
+  proxy: z
+    .object({
+      server: z.string(),
+      // Comma separated domains that skip the proxy, e.g. ".example.com, localhost"
+      bypass: z.string().optional(),
+      username: z.string().optional(),
+      password: z.string().optional(),
+    })
+    .strict()
+    .optional(),
+  slowMo: z.number().int().min(0).optional(),
+  // Milliseconds to wait for the browser to start
+  timeout: z.number().int().min(0).optional(),
+};
+
+/**
+ * Launch options a tool call may pass. The ones that pick the executable,
+ * its flags or paths on the host are only read from the server configuration.
+ */
+export const CallLaunchOptionsSchema = z
+  .object(callLaunchOptions)
+  .strict(
+    "Only proxy, slowMo and timeout can be set per call; other launch options belong in the server configuration"
+  );
+
+/**
+ * Options for launching a browser, as opposed to connecting to one
+ */
+export const LaunchOptionsSchema = z
+  .object({
+    ...callLaunchOptions,
+    args: z.array(z.string()).optional(),
+    channel: z.string().optional(),
+    executablePath: z.string().optional(),
+    downloadsPath: z.string().optional(),
+    // Launches a persistent context that keeps its profile, extensions included, in this directory
+    userDataDir: z.string().optional(),
+  })
+  .strict()
+  .refine((options) => !(options.channel && options.executablePath), {
+    message: "Set either channel or executablePath, not both",
+  });
+
+export type LaunchOptions = z.infer<typeof LaunchOptionsSchema>;
+
+export const ConfigSchema = z
+  .object({
+    transport: z.enum(TRANSPORT_TYPES).default("http"),
+    port: z.coerce.number().int().min(0).max(65535).default(3338),
+    maxSessions: z.coerce.number().int().positive().default(10),
+    // Idle time in milliseconds after which a session's browser is closed
+    sessionTimeout: z.coerce.number().int().positive().default(30 * 60 * 1000),
+    browserType: z.enum(["chromium", "firefox", "webkit"]).default("chromium"),
+    headless: booleanValue.default(false),
+    // Only settable in the config file
+    launchOptions: LaunchOptionsSchema.optional(),
+    // Connect to an already running browser instead of launching one
+    cdpEndpoint: z.string().url().optional(),
+    wsEndpoint: z.string().url().optional(),
+    viewport: z
+      .object({
+        width: z.coerce.number().int().positive().default(1280),
+        height: z.coerce.number().int().positive().default(720),
+      })
+      .strict()
+      .default({}),
+    screenshotDir: z.string().default(path.join(os.homedir(), "Downloads")),
+    // Directory of saved storage state profiles
+    profilesDir: z.string().default(path.join(os.homedir(), ".playwright-mcp", "profiles")),
+    // Directory local files may be uploaded from; unset allows only uploads of supplied content
+    uploadDir: z.string().optional(),
+    // Glob patterns (`*` wildcard) a navigated or requested URL must match; empty allows all
+    allowedUrlPatterns: listValue.default([]),
+    // Origins (`scheme://host[:port]`) browsers may call the MCP endpoints from; empty allows localhost
+    allowedOrigins: listValue.default([]),
+    // Host header names the MCP endpoints answer to; empty allows localhost
+    allowedHosts: listValue.default([]),
+    logLevel: z.enum(LOG_LEVELS).default("info"),
+  })
+  .strict()
+  .refine((config) => !(config.cdpEndpoint && config.wsEndpoint), {
+    message: "Set either cdpEndpoint or wsEndpoint, not both",
+  });
+
+export type ServerConfig = z.infer<typeof ConfigSchema>;
+
+/**
+ * Where each setting can be given outside of a config file
+ */
+const OPTION_SOURCES: { path: string[]; env: string; flag: string }[] = [
+  { path: ["transport"], env: "MCP_TRANSPORT", flag: "--transport" },
+  { path: ["port"], env: "PORT", flag: "--port" },
+  { path: ["maxSessions"], env: "MAX_SESSIONS", flag: "--max-sessions" },
+  { path: ["sessionTimeout"], env: "SESSION_TIMEOUT", flag: "--session-timeout" },
+  { path: ["browserType"], env: "BROWSER_TYPE", flag: "--browser-type" },
+  { path: ["headless"], env: "HEADLESS", flag: "--headless" },
+  { path: ["cdpEndpoint"], env: "CDP_ENDPOINT", flag: "--cdp-endpoint" },
+  { path: ["wsEndpoint"], env: "WS_ENDPOINT", flag: "--ws-endpoint" },
+  { path: ["viewport", "width"], env: "VIEWPORT_WIDTH", flag: "--viewport-width" },
+  { path: ["viewport", "height"], env: "VIEWPORT_HEIGHT", flag: "--viewport-height" },
+  { path: ["screenshotDir"], env: "SCREENSHOT_DIR", flag: "--screenshot-dir" },
+  { path: ["profilesDir"], env: "PROFILES_DIR", flag: "--profiles-dir" },
+  { path: ["uploadDir"], env: "UPLOAD_DIR", flag: "--upload-dir" },
+  { path: ["allowedUrlPatterns"], env: "ALLOWED_URL_PATTERNS", flag: "--allowed-url-patterns" },
+  { path: ["allowedOrigins"], env: "ALLOWED_ORIGINS", flag: "--allowed-origins" },
+  { path: ["allowedHosts"], env: "ALLOWED_HOSTS", flag: "--allowed-hosts" },
+  { path: ["logLevel"], env: "LOG_LEVEL", flag: "--log-level" },
+];
+
+// Flags that may be given without a value to mean `true`
+const BOOLEAN_FLAGS = ["--headless"];
+
+const CONFIG_FLAG = "--config";
+const CONFIG_ENV = "MCP_CONFIG";
+
+/**
+ * Resolves the server configuration. Later sources win:
+ * defaults, then the config file, then environment variables, then CLI flags.
+ * The config file is a JSON or YAML file given by `--config <path>` or MCP_CONFIG.
+ */
+export function loadConfig(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const flags = parseFlags(argv);
+  const configFile = flags.get(CONFIG_FLAG) ?? env[CONFIG_ENV];
+  const raw: Record<string, unknown> = configFile ? readConfigFile(configFile) : {};
+
+  for (const option of OPTION_SOURCES) {
+    const value = env[option.env];
+    if (value !== undefined && value !== "") {
+      setPath(raw, option.path, value);
+    }
+  }
+
+  for (const option of OPTION_SOURCES) {
+    const value = flags.get(option.flag);
+    if (value !== undefined) {
+      setPath(raw, option.path, value);
+    }
+  }
+
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = formatIssues(result.error).map((issue) => `  ${issue}`);
+    throw new Error(`Invalid configuration:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
+}
+
+// Replaces secrets in logged configuration
+const REDACTED = "***";
+
+/**
+ * Copy of the configuration that is safe to log, with the proxy password and
+ * the credentials and query parameters of endpoint URLs masked
+ */
+export function redactConfig(config: ServerConfig): ServerConfig {
+  const proxy = config.launchOptions?.proxy;
+  return {
+    ...config,
+    ...(config.cdpEndpoint && { cdpEndpoint: redactUrl(config.cdpEndpoint) }),
+    ...(config.wsEndpoint && { wsEndpoint: redactUrl(config.wsEndpoint) }),
+    ...(proxy && {
+      launchOptions: {
+        ...config.launchOptions,
+        proxy: {
+          ...proxy,
+          server: redactUrl(proxy.server),
+          ...(proxy.password && { password: REDACTED }),
+        },
+      },
+    }),
+  };
+}
+
+/**
+ * Masks the password and query parameter values of a URL, which is where
+ * endpoints usually carry credentials and tokens
+ */
+function redactUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  if (!url.password && url.searchParams.size === 0) {
+    return value;
+  }
+
+  if (url.password) {
+    url.password = REDACTED;
+  }
+  for (const key of [...url.searchParams.keys()]) {
+    url.searchParams.set(key, REDACTED);
+  }
+  return url.toString();
+}
+
+/**
+ * Formats zod issues as "path: message" lines
+ */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+  );
+}
+
+/**
+ * Checks a URL against glob patterns where `*` matches any run of characters.
+ * An empty pattern list allows every URL.
+ */
+export function isUrlAllowed(url: string, patterns: string[]): boolean {
+  if (patterns.length === 0) {
+    return true;
+  }
+
+  return patterns.some((pattern) => {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${source}$`).test(url);
+  });
+}
+
+/**
+ * Collects `--flag value` and `--flag=value` pairs, ignoring unknown arguments
+ */
+function parseFlags(argv: string[]): Map<string, string> {
+  const known = new Set([CONFIG_FLAG, ...OPTION_SOURCES.map((option) => option.flag)]);
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const [name, inlineValue] = splitFlag(argv[i]);
+    if (!known.has(name)) {
+      continue;
+    }
+
+    if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+    } else if (BOOLEAN_FLAGS.includes(name)) {
+      const next = argv[i + 1];
+      if (next === "true" || next === "false") {
+        flags.set(name, next);
+        i++;
+      } else {
+        flags.set(name, "true");
+      }
+    } else if (i + 1 < argv.length) {
+      flags.set(name, argv[++i]);
+    } else {
+      throw new Error(`Missing value for ${name}`);
+    }
+  }
+
+  return flags;
+}
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const index = arg.indexOf("=");
+  return index === -1 ? [arg, undefined] : [arg.slice(0, index), arg.slice(index + 1)];
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, "utf8");
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${(error as Error).message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(file) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Cannot parse config file ${file}: ${(error as Error).message}`);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Config file ${file} must contain an object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function setPath(target: Record<string, unknown>, keys: string[], value: unknown) {
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== "object" || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
@@ -0,0 +1,54 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  EventStore,
+  EventId,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Keeps the messages sent on streamable HTTP streams in memory,
+ * so a client reconnecting with Last-Event-ID gets what it missed
+ */
+export class InMemoryEventStore implements EventStore {
+  private events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+
+  constructor(private readonly maxEvents = 1000) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${uuidv4()}`;
+    this.events.set(eventId, { streamId, message });
+
+    // Drop the oldest events once the store is full
+    if (this.events.size > this.maxEvents) {
+      const oldestEventId = this.events.keys().next().value;
+      this.events.delete(oldestEventId);
+    }
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.events.get(lastEventId);
+    if (!lastEvent) {
+      return "";
+    }
+
+    // Events are kept in insertion order, so replay everything after the last one seen
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && streamId === lastEvent.streamId) {
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+}
@@ -0,0 +1,68 @@
+import { chromium, firefox, webkit, type Browser, type LaunchOptions } from "playwright";
+import type { BrowserSettings } from "./sessionManager.js";
+
+export interface ReadinessResult {
+  ready: boolean;
+  error?: string;
+  checkedAt: number;
+}
+
+/**
+ * Proves the configured browser can be used: connects to and disconnects
+ * from its endpoint, or launches and closes a headless instance of it
+ * @param settings Browser defaults of the server
+ */
+export async function probeBrowser(settings: BrowserSettings = {}): Promise<void> {
+  const browserType = { chromium, firefox, webkit }[settings.browserType ?? "chromium"];
+  // A persistent profile may be in use by a session, so the probe launches without it
+  const { userDataDir, ...launchOptions } = settings.launchOptions ?? {};
+
+  let browser: Browser;
+  if (settings.cdpEndpoint) {
+    browser = await chromium.connectOverCDP(settings.cdpEndpoint);
+  } else if (settings.wsEndpoint) {
+    browser = await browserType.connect(settings.wsEndpoint);
+  } else {
+    browser = await browserType.launch({ ...launchOptions, headless: true } as LaunchOptions);
+  }
+  // Closing a browser that was connected to only disconnects from it
+  await browser.close();
+}
+
+/**
+ * Creates a readiness check that runs the probe at most once per cache period,
+ * so frequent probes from an orchestrator do not each launch a browser
+ * @param probe Resolves when the server is ready, rejects otherwise
+ * @param cacheTtl How long a result is reused, in milliseconds
+ */
+export function createReadinessCheck(
+  probe: () => Promise<void> = probeBrowser,
+  cacheTtl = 60 * 1000
+): () => Promise<ReadinessResult> {
+  let lastResult: ReadinessResult | undefined;
+  let pending: Promise<ReadinessResult> | undefined;
+
+  return async () => {
+    if (lastResult && Date.now() - lastResult.checkedAt < cacheTtl) {
+      return lastResult;
+    }
+
+    // Concurrent probes share a single browser launch
+    if (!pending) {
+      pending = probe()
+        .then(() => ({ ready: true, checkedAt: Date.now() }))
+        .catch((error) => ({
+          ready: false,
+          error: (error as Error).message,
+          checkedAt: Date.now(),
+        }))
+        .then((result) => {
+          lastResult = result;
+          pending = undefined;
+          return result;
+        });
+    }
+
+    return pending;
+  };
+}
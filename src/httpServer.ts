@@ -0,0 +1,417 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { FastMCPSession } from "fastmcp";
+import { v4 as uuidv4 } from "uuid";
+import type { ClientRegistry, ClientSession } from "./clientRegistry.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import type { ReadinessResult } from "./health.js";
+
+export const SSE_ENDPOINT = "/sse";
+export const SSE_MESSAGES_ENDPOINT = "/messages";
+export const STREAMABLE_HTTP_ENDPOINT = "/mcp";
+export const HEALTH_ENDPOINT = "/health";
+export const READY_ENDPOINT = "/ready";
+export const METRICS_ENDPOINT = "/metrics";
+
+// Same limit the SDK applies to messages posted to the SSE transport
+const MAXIMUM_BODY_SIZE = 4 * 1024 * 1024;
+
+// Host names accepted when no allowed origins or hosts are configured
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+export interface HttpServerOptions {
+  port: number;
+  clients: ClientRegistry;
+  createSession: (client: ClientSession) => FastMCPSession<ClientSession>;
+  // Streamable HTTP sessions without requests for this long are closed
+  idleTimeout: number;
+  checkReadiness: () => Promise<ReadinessResult>;
+  renderMetrics: () => string;
+  // Origins browsers may call the MCP endpoints from; empty allows localhost origins
+  allowedOrigins: string[];
+  // Host header names the MCP endpoints answer to; empty allows localhost
+  allowedHosts: string[];
+}
+
+export interface HttpServer {
+  // Port the server listens on, the assigned one when started on port 0
+  port: number;
+  close(): Promise<void>;
+}
+
+type StreamableSession = {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+};
+
+/**
+ * Starts one HTTP server exposing both the legacy SSE transport and the
+ * streamable HTTP transport. Every client gets its own FastMCP session.
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<HttpServer> {
+  const { clients, createSession } = options;
+  const sseTransports = new Map<string, SSEServerTransport>();
+  const streamableSessions = new Map<string, StreamableSession>();
+  const eventStore = new InMemoryEventStore();
+
+  /**
+   * Connects a client to a new FastMCP session and releases it once the
+   * session's transport closes
+   */
+  function connectClient(client: ClientSession, onClose: () => void) {
+    const session = createSession(client);
+    clients.attachSession(client.id, session);
+
+    let closed = false;
+    session.server.onclose = () => {
+      if (closed) return;
+      closed = true;
+      onClose();
+      clients.release(client.id);
+    };
+
+    return session;
+  }
+
+  async function handleSseConnect(res: http.ServerResponse) {
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    const client = clients.register();
+    const session = connectClient(client, () => {
+      sseTransports.delete(transport.sessionId);
+    });
+    sseTransports.set(transport.sessionId, transport);
+
+    res.on("close", () => {
+      session.close();
+    });
+
+    try {
+      await session.connect(transport);
+    } catch (error) {
+      console.error("Error connecting SSE client:", error);
+      sseTransports.delete(transport.sessionId);
+      clients.release(client.id);
+      if (!res.headersSent) {
+        res.writeHead(500).end("Error connecting to server");
+      }
+    }
+  }
+
+  async function handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ) {
+    const sessionId = url.searchParams.get("sessionId");
+    if (!sessionId) {
+      res.writeHead(400).end("No sessionId");
+      return;
+    }
+
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      res.writeHead(400).end("No active transport");
+      return;
+    }
+
+    await transport.handlePostMessage(req, res);
+  }
+
+  async function handleStreamableRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ) {
+    const header = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (body instanceof PayloadTooLargeError) {
+      // The rest of the body is not read, so the connection cannot be reused
+      res.setHeader("Connection", "close");
+      sendJsonRpcError(res, 413, -32000, body.message);
+      return;
+    }
+    if (body instanceof Error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${body.message}`);
+      return;
+    }
+
+    if (sessionId) {
+      // A known session id picks up the transport, and so the browser, it was using
+      const streamable = streamableSessions.get(sessionId);
+      if (!streamable) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+
+      streamable.lastActivity = Date.now();
+      await streamable.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32000,
+        "Bad Request: No valid session ID provided"
+      );
+      return;
+    }
+
+    // The MCP session id doubles as the client identity, so it keys the browser session
+    const client = clients.register(uuidv4());
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => client.id,
+      eventStore,
+      onsessioninitialized: (id) => {
+        streamableSessions.set(id, { transport, lastActivity: Date.now() });
+      },
+    });
+
+    const session = connectClient(client, () => {
+      streamableSessions.delete(client.id);
+    });
+
+    // Not awaited: the session waits for client capabilities sent by this very request
+    session.connect(transport).catch((error) => {
+      console.error("Error connecting streamable HTTP client:", error);
+    });
+
+    await transport.handleRequest(req, res, body);
+
+    // The transport rejected the initialization, so the session never started
+    if (!streamableSessions.has(client.id)) {
+      await session.close();
+      clients.release(client.id);
+    }
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const originAllowed = isOriginAllowed(req.headers.origin, options.allowedOrigins);
+    if (req.headers.origin && originAllowed) {
+      res.setHeader("Access-Control-Allow-Origin", req.headers.origin);
+      res.setHeader("Access-Control-Allow-Credentials", "true");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "*");
+      res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+      res.setHeader("Vary", "Origin");
+    }
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (req.method === "GET" && url.pathname === "/ping") {
+        res.writeHead(200).end("pong");
+        return;
+      }
+
+      // Process is up and serving requests
+      if (req.method === "GET" && url.pathname === HEALTH_ENDPOINT) {
+        sendJson(res, 200, { status: "ok" });
+        return;
+      }
+
+      // A browser can be launched
+      if (req.method === "GET" && url.pathname === READY_ENDPOINT) {
+        const readiness = await options.checkReadiness();
+        sendJson(res, readiness.ready ? 200 : 503, {
+          status: readiness.ready ? "ready" : "unavailable",
+          ...(readiness.error && { error: readiness.error }),
+        });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === METRICS_ENDPOINT) {
+        res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+        res.writeHead(200).end(options.renderMetrics());
+        return;
+      }
+
+      // Health endpoints stay open to probes, which often address the server by IP
+      const mcpEndpoint = [SSE_ENDPOINT, SSE_MESSAGES_ENDPOINT, STREAMABLE_HTTP_ENDPOINT]
+        .includes(url.pathname);
+      // Guards against DNS rebinding and cross-site calls from web pages
+      if (mcpEndpoint && !isHostAllowed(req.headers.host, options.allowedHosts)) {
+        sendJsonRpcError(res, 403, -32000, `Forbidden: host not allowed: ${req.headers.host}`);
+        return;
+      }
+      if (mcpEndpoint && !originAllowed) {
+        sendJsonRpcError(res, 403, -32000, `Forbidden: origin not allowed: ${req.headers.origin}`);
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_ENDPOINT) {
+        await handleSseConnect(res);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === SSE_MESSAGES_ENDPOINT) {
+        await handleSseMessage(req, res, url);
+        return;
+      }
+
+      if (url.pathname === STREAMABLE_HTTP_ENDPOINT) {
+        await handleStreamableRequest(req, res);
+        return;
+      }
+
+      res.writeHead(404).end();
+    } catch (error) {
+      console.error("Error handling request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal Server Error");
+      }
+    }
+  });
+
+  // Fails when the port is taken or cannot be bound
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, "::", () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  // Close streamable HTTP sessions whose clients went away without a DELETE
+  const idleSweep = setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, streamable] of streamableSessions) {
+      if (now - streamable.lastActivity > options.idleTimeout) {
+        console.log(`Closing idle streamable HTTP session: ${sessionId}`);
+        streamable.transport.close();
+      }
+    }
+  }, 60 * 1000);
+  idleSweep.unref();
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    close: async () => {
+      clearInterval(idleSweep);
+
+      for (const transport of sseTransports.values()) {
+        await transport.close();
+      }
+      for (const { transport } of streamableSessions.values()) {
+        await transport.close();
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+/**
+ * Checks the Origin header of a request. Requests without one do not come
+ * from a web page and are allowed; otherwise the origin must be listed, or be
+ * a localhost origin when none are.
+ */
+function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) {
+    return true;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  return allowedOrigins.length === 0
+    ? LOCAL_HOSTS.includes(url.hostname)
+    : allowedOrigins.some((allowed) => allowed.replace(/\/$/, "") === url.origin);
+}
+
+/**
+ * Checks the host name of the Host header, ignoring its port, against the
+ * allowed hosts, or localhost when none are listed
+ */
+function isHostAllowed(host: string | undefined, allowedHosts: string[]): boolean {
+  if (!host) {
+    return false;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(`http://${host}`).hostname;
+  } catch {
+    return false;
+  }
+  const hosts = allowedHosts.length === 0 ? LOCAL_HOSTS : allowedHosts;
+  return hosts.some((allowed) => allowed.toLowerCase() === hostname);
+}
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Payload too large: request bodies are limited to ${MAXIMUM_BODY_SIZE} bytes`);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * Reads and parses a JSON request body, returning the parse error instead of
+ * throwing. Reading stops once the body exceeds MAXIMUM_BODY_SIZE.
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > MAXIMUM_BODY_SIZE) {
+    return Promise.resolve(new PayloadTooLargeError());
+  }
+
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAXIMUM_BODY_SIZE) {
+        // Discard the rest instead of destroying the request, which would drop the response
+        req.off("data", onData).off("end", onEnd).resume();
+        resolve(new PayloadTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    const onEnd = () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (error) {
+        resolve(error as Error);
+      }
+    };
+
+    req.on("data", onData).on("end", onEnd).on("error", resolve);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.setHeader("Content-Type", "application/json");
+  res.writeHead(status).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  code: number,
+  message: string
+) {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
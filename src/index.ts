@@ -1,93 +1,86 @@
 #!/usr/bin/env node
 
-import { FastMCP, type Context } from "fastmcp";
-import { z } from "zod";
+import {
+  FastMCPSession,
+  type Context,
+  type Resource,
+  type ResourceTemplate,
+  type Tool,
+} from "fastmcp";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { ListResourcesRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { ToolHandler } from "./toolHandler.js";
-import { v4 as uuidv4 } from "uuid";
-import type { ContentResult, TextContent, ImageContent } from "fastmcp";
+import { createToolDefinitions } from "./tools.js";
+import { jsonSchemaToZod } from "./toolSchemas.js";
+import { ClientRegistry, type ClientSession } from "./clientRegistry.js";
+import {
+  startHttpServer,
+  SSE_ENDPOINT,
+  STREAMABLE_HTTP_ENDPOINT,
+  HEALTH_ENDPOINT,
+  type HttpServer,
+} from "./httpServer.js";
+import { Metrics } from "./metrics.js";
+import { createReadinessCheck, probeBrowser } from "./health.js";
+import { routeLogsToStderr } from "./transport.js";
+import { loadConfig, redactConfig, type ServerConfig } from "./config.js";
+import { applyLogLevel } from "./logging.js";
+import { ProfileStore, PROFILE_URI_PREFIX } from "./profiles.js";
+import type { BrowserSettings } from "./sessionManager.js";
+import type { ContentResult } from "fastmcp";
+
+let config: ServerConfig;
+try {
+  config = loadConfig(process.argv.slice(2));
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
-// Define the session data type
-type SessionData = {
-  id: string;
-};
+// In stdio mode stdout carries the JSON-RPC stream, so diagnostics go to stderr
+if (config.transport === "stdio") {
+  routeLogsToStderr();
+}
+applyLogLevel(config.logLevel);
 
-const toolHandler = new ToolHandler({
-  maxSessions: 10,
-  sessionTimeout: 30 * 60 * 1000, // 30 minutes
-});
+console.log(`Resolved configuration: ${JSON.stringify(redactConfig(config), null, 2)}`);
 
-const server = new FastMCP({
-  name: "executeautomation/playwright-mcp-server",
-  version: "1.0.1",
-});
+const metrics = new Metrics();
 
-// Store active sessions with their metadata
-type SessionMetadata = {
-  clientId: string;
-  sessionId: string;
-  connected: boolean;
+const profiles = new ProfileStore(config.profilesDir);
+
+const browserDefaults: BrowserSettings = {
+  browserType: config.browserType,
+  headless: config.headless,
+  viewport: config.viewport,
+  cdpEndpoint: config.cdpEndpoint,
+  wsEndpoint: config.wsEndpoint,
+  launchOptions: config.launchOptions,
 };
 
-const sessions = new Map<string, SessionMetadata>();
+const toolHandler = new ToolHandler({
+  maxSessions: config.maxSessions,
+  sessionTimeout: config.sessionTimeout,
+  browserDefaults,
+  screenshotDir: config.screenshotDir,
+  uploadDir: config.uploadDir,
+  allowedUrlPatterns: config.allowedUrlPatterns,
+  profiles,
+  metrics,
+});
 
-// Handle client connections
-server.on("connect", (event) => {
-  const sessionId = uuidv4();
-  const clientId = uuidv4();
+const clients = new ClientRegistry(toolHandler);
 
-  sessions.set(clientId, {
-    clientId,
-    sessionId,
-    connected: true,
-  });
+const SERVER_NAME = "executeautomation/playwright-mcp-server";
+const SERVER_VERSION = "1.0.1";
 
-  console.log(`Client connected: ${clientId}, Session: ${sessionId}`);
-});
+let httpServer: HttpServer | undefined;
 
-// Handle client disconnections
-server.on("disconnect", async (event) => {
-  try {
-    const clientsToDisconnect = Array.from(sessions.values()).filter(
-      (session) => session.connected
-    );
+// Tool calls that have not returned yet, which a stdio shutdown waits for
+const pendingCalls = new Set<Promise<unknown>>();
 
-    // Mark all sessions as disconnected first
-    for (const session of clientsToDisconnect) {
-      session.connected = false;
-    }
-
-    // Then handle cleanup in the background
-    setImmediate(async () => {
-      try {
-        await Promise.allSettled(
-          clientsToDisconnect.map(async (session) => {
-            try {
-              await toolHandler.close(session.sessionId);
-              sessions.delete(session.clientId);
-              console.log(
-                `Client disconnected: ${session.clientId}, Session: ${session.sessionId}`
-              );
-            } catch (closeError) {
-              if (closeError instanceof Error) {
-                // Only log if it's not a connection closed error
-                if (!closeError.message?.includes("Connection closed")) {
-                  console.error(
-                    `Error closing session for client ${session.clientId}:`,
-                    closeError
-                  );
-                }
-              }
-            }
-          })
-        );
-      } catch (error) {
-        console.error("Error during client disconnection cleanup:", error);
-      }
-    });
-  } catch (error) {
-    console.error("Error in disconnect handler:", error);
-  }
-});
+// Longest a stdio shutdown waits for pending tool calls
+const PENDING_CALLS_TIMEOUT = 10 * 1000;
 
 // Handle process termination
 process.on("SIGTERM", () => gracefulShutdown());
@@ -99,37 +92,12 @@ async function gracefulShutdown() {
 
   try {
     // Stop accepting new connections
-    await server.stop();
+    await httpServer?.close();
     console.log("Server stopped accepting new connections");
 
-    // Get all active sessions
-    const activeSessions = Array.from(sessions.values()).filter(
-      (session) => session.connected
-    );
-
-    if (activeSessions.length > 0) {
-      console.log(`Closing ${activeSessions.length} active sessions...`);
-
-      await Promise.allSettled(
-        activeSessions.map(async (session) => {
-          try {
-            await toolHandler.close(session.sessionId);
-            console.log(`Closed session for client: ${session.clientId}`);
-          } catch (error) {
-            if (
-              error instanceof Error &&
-              !error.message?.includes("Connection closed")
-            ) {
-              console.error(
-                `Error closing session for client ${session.clientId}:`,
-                error
-              );
-            }
-          } finally {
-            sessions.delete(session.clientId);
-          }
-        })
-      );
+    if (clients.size > 0) {
+      console.log(`Closing ${clients.size} active sessions...`);
+      await clients.releaseAll();
     }
 
     console.log("All sessions cleaned up");
@@ -166,330 +134,216 @@ process.on("unhandledRejection", (reason: any) => {
   console.error("Unhandled promise rejection:", reason);
 });
 
-// Define tool parameters using zod schemas
-const NavigateParams = z.object({
-  url: z.string(),
-  browserType: z.enum(["chromium", "firefox", "webkit"]).default("chromium"),
-  width: z.number().default(1280),
-  height: z.number().default(720),
-  timeout: z.number().default(30000),
-  waitUntil: z.string().default("load"),
-  headless: z.boolean().default(false),
-});
-
-const ScreenshotParams = z.object({
-  name: z.string(),
-  selector: z.string(),
-  width: z.number().default(1280),
-  height: z.number().default(720),
-  storeBase64: z.boolean().default(false),
-  fullPage: z.boolean().default(false),
-  savePng: z.boolean().default(false),
-  downloadsDir: z.string().default("./screenshots"),
-});
-
-const ClickParams = z.object({
-  selector: z.string(),
-});
-
-const IframeClickParams = z.object({
-  iframeSelector: z.string(),
-  selector: z.string(),
-});
-
-const FillParams = z.object({
-  selector: z.string(),
-  value: z.string(),
-});
-
-const SelectParams = z.object({
-  selector: z.string(),
-  value: z.string(),
-});
-
-const HoverParams = z.object({
-  selector: z.string(),
-});
-
-const EvaluateParams = z.object({
-  script: z.string(),
-});
-
-const ConsoleLogsParams = z.object({
-  type: z.string(),
-  search: z.string(),
-  limit: z.number(),
-  clear: z.boolean(),
-});
+/**
+ * Runs a tool call through the shared tool handler for the caller's session
+ */
+async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+  context: Context<ClientSession>
+): Promise<ContentResult> {
+  const clientId = context.session?.id;
+
+  if (!clientId || !clients.has(clientId)) {
+    throw new Error("No active session found for connection");
+  }
 
-interface ConnectionContext {
-  connectionId: string;
+  const call = toolHandler.handleToolCall(
+    clientId,
+    name,
+    args,
+    clients.getServer(clientId)
+  );
+  pendingCalls.add(call);
+  try {
+    return (await call) as ContentResult;
+  } finally {
+    pendingCalls.delete(call);
+  }
 }
 
-// Navigation tool
-server.addTool({
-  name: "playwright_navigate",
-  description: "Navigate to a URL using Playwright",
-  parameters: NavigateParams,
-  execute: async (
-    params: z.infer<typeof NavigateParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-
-    await toolHandler.navigate(session.sessionId, {
-      url: params.url,
-      browserType: params.browserType,
-      width: params.width,
-      height: params.height,
-      timeout: params.timeout,
-      waitUntil: params.waitUntil,
-      headless: params.headless,
-    });
-
-    return {
-      type: "text",
-      text: "Navigation successful",
-    } as TextContent;
-  },
-});
+// Every tool definition, validated by the zod equivalent of its JSON schema
+const tools: Tool<ClientSession>[] = createToolDefinitions().map((tool) => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: jsonSchemaToZod(tool.inputSchema),
+  execute: (params, context) =>
+    executeTool(tool.name, params as Record<string, unknown>, context),
+}));
+
+// Saved storage state profiles, readable as profile://<name>
+const profileResourceTemplate: ResourceTemplate = {
+  uriTemplate: `${PROFILE_URI_PREFIX}{name}`,
+  name: "Storage state profile",
+  description: "Cookies and localStorage saved with playwright_save_profile",
+  mimeType: "application/json",
+  arguments: [
+    {
+      name: "name",
+      description: "Profile name",
+      complete: async (value) => ({
+        values: (await profiles.list())
+          .map((profile) => profile.name)
+          .filter((name) => name.startsWith(value)),
+      }),
+    },
+  ],
+  load: async ({ name }) => ({ text: await profiles.read(name) }),
+};
 
-// Screenshot tool
-server.addTool({
-  name: "playwright_screenshot",
-  description: "Take a screenshot using Playwright",
-  parameters: ScreenshotParams,
-  execute: async (
-    params: z.infer<typeof ScreenshotParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    const screenshot = await toolHandler.screenshot(session.sessionId, {
-      name: params.name,
-      selector: params.selector,
-      width: params.width,
-      height: params.height,
-      storeBase64: params.storeBase64,
-      fullPage: params.fullPage,
-      savePng: params.savePng,
-      downloadsDir: params.downloadsDir,
-    });
-    return {
-      type: "image",
-      data: screenshot,
-      mimeType: "image/png",
-    } as ImageContent;
-  },
-});
+const CONSOLE_LOGS_URI = "console://logs";
+const SCREENSHOT_URI_PREFIX = "screenshot://";
+
+/**
+ * Browser console logs of a client's session, readable as console://logs
+ */
+function consoleLogsResource(client: ClientSession): Resource {
+  return {
+    uri: CONSOLE_LOGS_URI,
+    name: "Browser console logs",
+    mimeType: "text/plain",
+    load: async () => ({ text: toolHandler.getConsoleLogs(client.id).join("\n") }),
+  };
+}
 
-// Click tool
-server.addTool({
-  name: "playwright_click",
-  description: "Click an element using Playwright",
-  parameters: ClickParams,
-  execute: async (
-    params: z.infer<typeof ClickParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    await toolHandler.click(session.sessionId, { selector: params.selector });
-    return {
-      type: "text",
-      text: "Click successful",
-    } as TextContent;
-  },
-});
+/**
+ * Screenshots a client's session stored in memory, readable as screenshot://<name>
+ */
+function screenshotResourceTemplate(client: ClientSession): ResourceTemplate {
+  return {
+    uriTemplate: `${SCREENSHOT_URI_PREFIX}{name}`,
+    name: "Screenshot",
+    description: "Screenshot stored in memory by playwright_screenshot",
+    mimeType: "image/png",
+    arguments: [
+      {
+        name: "name",
+        description: "Screenshot name",
+        complete: async (value) => ({
+          values: [...toolHandler.getScreenshots(client.id).keys()].filter((name) =>
+            name.startsWith(value)
+          ),
+        }),
+      },
+    ],
+    load: async ({ name }) => {
+      const screenshot = toolHandler.getScreenshots(client.id).get(name);
+      if (!screenshot) {
+        throw new Error(`Screenshot not found: ${name}`);
+      }
+      return { blob: screenshot };
+    },
+  };
+}
 
-// IFrame click tool
-server.addTool({
-  name: "playwright_iframe_click",
-  description: "Click an element in an iframe using Playwright",
-  parameters: IframeClickParams,
-  execute: async (
-    params: z.infer<typeof IframeClickParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    await toolHandler.iframeClick(session.sessionId, {
-      iframeSelector: params.iframeSelector,
-      selector: params.selector,
-    });
-    return {
-      type: "text",
-      text: "IFrame click successful",
-    } as TextContent;
-  },
-});
+/**
+ * Creates the MCP session serving a single client
+ */
+function createSession(client: ClientSession) {
+  const session = new FastMCPSession<ClientSession>({
+    auth: client,
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+    tools,
+    resources: [consoleLogsResource(client)],
+    resourcesTemplates: [profileResourceTemplate, screenshotResourceTemplate(client)],
+    prompts: [],
+  });
 
-// Fill tool
-server.addTool({
-  name: "playwright_fill",
-  description: "Fill a form field using Playwright",
-  parameters: FillParams,
-  execute: async (
-    params: z.infer<typeof FillParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    await toolHandler.fill(session.sessionId, {
-      selector: params.selector,
-      value: params.value,
-    });
-    return {
-      type: "text",
-      text: "Fill successful",
-    } as TextContent;
-  },
-});
+  // FastMCP lists a fixed set of resources, while screenshots and profiles are saved at runtime
+  session.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: CONSOLE_LOGS_URI,
+        name: "Browser console logs",
+        mimeType: "text/plain",
+      },
+      ...[...toolHandler.getScreenshots(client.id).keys()].map((name) => ({
+        uri: `${SCREENSHOT_URI_PREFIX}${name}`,
+        name: `Screenshot: ${name}`,
+        mimeType: "image/png",
+      })),
+      ...(await profiles.list()).map((profile) => ({
+        uri: `${PROFILE_URI_PREFIX}${profile.name}`,
+        name: `Profile ${profile.name}`,
+        description: `Storage state saved ${profile.modifiedAt.toISOString()}`,
+        mimeType: "application/json",
+      })),
+    ],
+  }));
+
+  return session;
+}
 
-// Select tool
-server.addTool({
-  name: "playwright_select",
-  description: "Select an option using Playwright",
-  parameters: SelectParams,
-  execute: async (
-    params: z.infer<typeof SelectParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    await toolHandler.select(session.sessionId, {
-      selector: params.selector,
-      value: params.value,
-    });
-    return {
-      type: "text",
-      text: "Select successful",
-    } as TextContent;
-  },
-});
+/**
+ * Lets the responses to tool calls that were still running when the client
+ * closed stdin reach stdout before the session closes
+ */
+async function drainStdioSession(session: FastMCPSession<ClientSession>) {
+  if (pendingCalls.size > 0) {
+    console.log(`Waiting for ${pendingCalls.size} pending tool calls...`);
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(pendingCalls),
+      new Promise((resolve) => {
+        timer = setTimeout(resolve, PENDING_CALLS_TIMEOUT);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
 
-// Hover tool
-server.addTool({
-  name: "playwright_hover",
-  description: "Hover over an element using Playwright",
-  parameters: HoverParams,
-  execute: async (
-    params: z.infer<typeof HoverParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    await toolHandler.hover(session.sessionId, { selector: params.selector });
-    return {
-      type: "text",
-      text: "Hover successful",
-    } as TextContent;
-  },
-});
+  // The MCP server sends a result on a later tick than the tool returns it
+  await new Promise((resolve) => setImmediate(resolve));
+  await session.close();
+  await new Promise((resolve) => process.stdout.write("", resolve));
+}
 
-// Evaluate tool
-server.addTool({
-  name: "playwright_evaluate",
-  description: "Evaluate JavaScript code using Playwright",
-  parameters: EvaluateParams,
-  execute: async (
-    params: z.infer<typeof EvaluateParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    const result = await toolHandler.evaluate(session.sessionId, {
-      script: params.script,
-    });
-    return {
-      type: "text",
-      text: JSON.stringify(result),
-    } as TextContent;
-  },
-});
+if (config.transport === "stdio") {
+  // A stdio server has exactly one client
+  const client = clients.register();
+  const session = createSession(client);
+  clients.attachSession(client.id, session);
+
+  // Release the browser once the client closes its end of the pipe
+  process.stdin.on("close", () => {
+    drainStdioSession(session)
+      .catch((error) => console.error("Error closing stdio session:", error))
+      .finally(() => gracefulShutdown());
+  });
 
-// Console logs tool
-server.addTool({
-  name: "playwright_console_logs",
-  description: "Get console logs from Playwright",
-  parameters: ConsoleLogsParams,
-  execute: async (
-    params: z.infer<typeof ConsoleLogsParams>,
-    context: Context<SessionData>
-  ) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (!session || !session.connected) {
-      throw new Error("No active session found for connection");
-    }
-    const logs = await toolHandler.getConsoleLogs(session.sessionId, {
-      type: params.type,
-      search: params.search,
-      limit: params.limit,
-      clear: params.clear,
+  session
+    .connect(new StdioServerTransport())
+    .then(() => console.log("Server started on stdio"))
+    .catch((error) => {
+      console.error("Failed to start stdio server:", error);
+      process.exit(1);
     });
-    return {
-      type: "text",
-      text: JSON.stringify(logs),
-    } as TextContent;
-  },
-});
-
-// Close tool
-server.addTool({
-  name: "playwright_close",
-  description: "Close the browser using Playwright",
-  parameters: z.object({}),
-  execute: async (_, context: Context<SessionData>) => {
-    const clientId = (context.session as any).id as string;
-    const session = sessions.get(clientId);
-    if (session && session.connected) {
-      await toolHandler.close(session.sessionId);
-      sessions.delete(clientId);
-    }
-    return {
-      type: "text",
-      text: "Browser closed successfully",
-    } as TextContent;
-  },
-});
-
-// Get port from environment variable or use default
-const port = process.env.PORT ? parseInt(process.env.PORT) : 3338;
-
-// Start the server with SSE transport
-server.start({
-  transportType: "sse",
-  sse: {
-    endpoint: "/sse",
-    port: port,
-  },
-});
-
-console.log(`Server started on http://localhost:${port}/sse`);
+} else {
+  const { port } = config;
+
+  startHttpServer({
+    port,
+    clients,
+    createSession,
+    idleTimeout: config.sessionTimeout,
+    allowedOrigins: config.allowedOrigins,
+    allowedHosts: config.allowedHosts,
+    checkReadiness: createReadinessCheck(() => probeBrowser(browserDefaults)),
+    renderMetrics: () =>
+      metrics.render({
+        activeSessions: toolHandler.activeSessions,
+        connectedClients: clients.size,
+      }),
+  }).then((server) => {
+    httpServer = server;
+    console.log(`Server started on http://localhost:${port}`);
+    console.log(`  SSE:             http://localhost:${port}${SSE_ENDPOINT}`);
+    console.log(
+      `  Streamable HTTP: http://localhost:${port}${STREAMABLE_HTTP_ENDPOINT}`
+    );
+    console.log(`  Health:          http://localhost:${port}${HEALTH_ENDPOINT}`);
+  }).catch((error) => {
+    console.error(`Failed to start HTTP server on port ${port}:`, error);
+    process.exit(1);
+  });
+}
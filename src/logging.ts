@@ -0,0 +1,22 @@
+import { LOG_LEVELS, type LogLevel } from "./config.js";
+
+const noop = () => {};
+
+/**
+ * Silences the console channels below the given level
+ */
+export function applyLogLevel(level: LogLevel): void {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const enabled = (channel: LogLevel) => LOG_LEVELS.indexOf(channel) >= threshold;
+
+  if (!enabled("debug")) {
+    console.debug = noop;
+  }
+  if (!enabled("info")) {
+    console.log = noop;
+    console.info = noop;
+  }
+  if (!enabled("warn")) {
+    console.warn = noop;
+  }
+}
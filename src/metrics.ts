@@ -0,0 +1,140 @@
+// Upper bounds of the tool call duration histogram, in seconds
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+type ToolCallStats = {
+  calls: number;
+  errors: number;
+  durationSum: number;
+  // Cumulative counts, one per entry of DURATION_BUCKETS
+  bucketCounts: number[];
+};
+
+/**
+ * Values sampled at scrape time rather than counted as they happen
+ */
+export interface MetricsGauges {
+  activeSessions: number;
+  connectedClients: number;
+}
+
+/**
+ * Collects server metrics and renders them in the Prometheus text format
+ */
+export class Metrics {
+  private browserLaunches = new Map<string, number>();
+  private sessionEvictions = 0;
+  private toolCalls = new Map<string, ToolCallStats>();
+
+  recordBrowserLaunch(browserType: string): void {
+    this.browserLaunches.set(
+      browserType,
+      (this.browserLaunches.get(browserType) ?? 0) + 1
+    );
+  }
+
+  recordSessionEviction(): void {
+    this.sessionEvictions++;
+  }
+
+  /**
+   * Records a completed tool call
+   * @param name Tool name
+   * @param durationSeconds Time taken by the call
+   * @param isError Whether the call returned an error result
+   */
+  recordToolCall(name: string, durationSeconds: number, isError: boolean): void {
+    let stats = this.toolCalls.get(name);
+    if (!stats) {
+      stats = {
+        calls: 0,
+        errors: 0,
+        durationSum: 0,
+        bucketCounts: DURATION_BUCKETS.map(() => 0),
+      };
+      this.toolCalls.set(name, stats);
+    }
+
+    stats.calls++;
+    stats.durationSum += durationSeconds;
+    if (isError) {
+      stats.errors++;
+    }
+    DURATION_BUCKETS.forEach((bound, index) => {
+      if (durationSeconds <= bound) {
+        stats.bucketCounts[index]++;
+      }
+    });
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  render(gauges: MetricsGauges): string {
+    const lines: string[] = [];
+
+    lines.push(
+      "# HELP playwright_mcp_active_sessions Browser sessions currently held by the session manager.",
+      "# TYPE playwright_mcp_active_sessions gauge",
+      `playwright_mcp_active_sessions ${gauges.activeSessions}`,
+      "# HELP playwright_mcp_connected_clients MCP clients currently connected.",
+      "# TYPE playwright_mcp_connected_clients gauge",
+      `playwright_mcp_connected_clients ${gauges.connectedClients}`
+    );
+
+    lines.push(
+      "# HELP playwright_mcp_browser_launches_total Browser instances launched.",
+      "# TYPE playwright_mcp_browser_launches_total counter"
+    );
+    for (const [browserType, count] of this.browserLaunches) {
+      lines.push(
+        `playwright_mcp_browser_launches_total{browser_type="${escapeLabel(browserType)}"} ${count}`
+      );
+    }
+
+    lines.push(
+      "# HELP playwright_mcp_session_evictions_total Sessions closed for inactivity.",
+      "# TYPE playwright_mcp_session_evictions_total counter",
+      `playwright_mcp_session_evictions_total ${this.sessionEvictions}`
+    );
+
+    lines.push(
+      "# HELP playwright_mcp_tool_calls_total Tool calls handled.",
+      "# TYPE playwright_mcp_tool_calls_total counter"
+    );
+    for (const [name, stats] of this.toolCalls) {
+      lines.push(`playwright_mcp_tool_calls_total{tool="${escapeLabel(name)}"} ${stats.calls}`);
+    }
+
+    lines.push(
+      "# HELP playwright_mcp_tool_errors_total Tool calls that returned an error.",
+      "# TYPE playwright_mcp_tool_errors_total counter"
+    );
+    for (const [name, stats] of this.toolCalls) {
+      lines.push(`playwright_mcp_tool_errors_total{tool="${escapeLabel(name)}"} ${stats.errors}`);
+    }
+
+    lines.push(
+      "# HELP playwright_mcp_tool_call_duration_seconds Tool call latency.",
+      "# TYPE playwright_mcp_tool_call_duration_seconds histogram"
+    );
+    for (const [name, stats] of this.toolCalls) {
+      const tool = escapeLabel(name);
+      DURATION_BUCKETS.forEach((bound, index) => {
+        lines.push(
+          `playwright_mcp_tool_call_duration_seconds_bucket{tool="${tool}",le="${bound}"} ${stats.bucketCounts[index]}`
+        );
+      });
+      lines.push(
+        `playwright_mcp_tool_call_duration_seconds_bucket{tool="${tool}",le="+Inf"} ${stats.calls}`,
+        `playwright_mcp_tool_call_duration_seconds_sum{tool="${tool}"} ${stats.durationSum}`,
+        `playwright_mcp_tool_call_duration_seconds_count{tool="${tool}"} ${stats.calls}`
+      );
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
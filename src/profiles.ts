@@ -0,0 +1,91 @@
+import fs from "node:fs/promises";
+import * as path from "node:path";
+import type { BrowserContext } from "playwright";
+
+export const PROFILE_URI_PREFIX = "profile://";
+
+// Profile names become file names, so they are restricted to a safe alphabet
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export interface ProfileInfo {
+  name: string;
+  path: string;
+  modifiedAt: Date;
+}
+
+/**
+ * Saved storage state (cookies and localStorage) profiles, one JSON file per profile
+ */
+export class ProfileStore {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Path of a profile's file, whether or not it exists
+   */
+  pathOf(name: string): string {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid profile name: ${name}. Use letters, digits, '.', '_' and '-'`
+      );
+    }
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  /**
+   * Path of an existing profile's file
+   */
+  async resolve(name: string): Promise<string> {
+    const file = this.pathOf(name);
+    try {
+      await fs.access(file);
+    } catch {
+      throw new Error(`Profile not found: ${name}`);
+    }
+    return file;
+  }
+
+  async list(): Promise<ProfileInfo[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const profiles: ProfileInfo[] = [];
+    for (const entry of entries.sort()) {
+      const name = entry.replace(/\.json$/, "");
+      if (name === entry || !PROFILE_NAME_PATTERN.test(name)) {
+        continue;
+      }
+      const file = path.join(this.directory, entry);
+      const stats = await fs.stat(file);
+      profiles.push({ name, path: file, modifiedAt: stats.mtime });
+    }
+    return profiles;
+  }
+
+  async read(name: string): Promise<string> {
+    return fs.readFile(await this.resolve(name), "utf8");
+  }
+
+  /**
+   * Saves the cookies and localStorage of a context, replacing any profile of the same name
+   * @returns The number of cookies and origins saved
+   */
+  async save(
+    name: string,
+    context: BrowserContext
+  ): Promise<{ path: string; cookies: number; origins: number }> {
+    const file = this.pathOf(name);
+    const state = await context.storageState();
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(state, null, 2), { mode: 0o600 });
+
+    return { path: file, cookies: state.cookies.length, origins: state.origins.length };
+  }
+}
@@ -1,20 +1,91 @@
-import type { Browser, Page } from "playwright";
-import { chromium, firefox, webkit } from "playwright";
+import type { Browser, BrowserContext, Page } from "playwright";
+import { chromium, devices, firefox, webkit } from "playwright";
 import { EventEmitter } from "events";
+import type { LaunchOptions } from "./config.js";
 
-export interface BrowserSettings {
+/**
+ * Options of a single browser context
+ */
+export interface ContextSettings {
   viewport?: {
     width?: number;
     height?: number;
   };
   userAgent?: string;
+  locale?: string;
+  // Path of a saved storage state (cookies and localStorage) to start from
+  storageState?: string;
+  // Name of a Playwright device descriptor, such as "iPhone 13"; explicit settings override it
+  device?: string;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  deviceScaleFactor?: number;
+  timezoneId?: string;
+  colorScheme?: "light" | "dark" | "no-preference";
+  reducedMotion?: "reduce" | "no-preference";
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  permissions?: string[];
+}
+
+/**
+ * An already running browser to connect to instead of launching one.
+ * At most one of the endpoints is set.
+ */
+export interface BrowserConnection {
+  // Chrome DevTools Protocol endpoint, for Chromium-based browsers
+  cdpEndpoint?: string;
+  // Playwright browser server endpoint, from browserType.launchServer()
+  wsEndpoint?: string;
+}
+
+export interface BrowserSettings extends ContextSettings, BrowserConnection {
   headless?: boolean;
   browserType?: "chromium" | "firefox" | "webkit";
+  launchOptions?: LaunchOptions;
+}
+
+/**
+ * A browser context with its own cookies and storage, addressed by name
+ */
+export interface NamedContext {
+  name: string;
+  context: BrowserContext;
+  settings: ContextSettings;
+}
+
+/**
+ * A context that was replaced to apply new settings
+ */
+export interface RecreatedContext {
+  context: NamedContext;
+  // Settings that differed from the ones of the replaced context
+  changed: (keyof ContextSettings)[];
+  // URLs of the tabs that were closed along with the replaced context
+  closedTabs: string[];
 }
 
+/**
+ * Context every browser starts with
+ */
+export const DEFAULT_CONTEXT_NAME = "default";
+
 export interface SessionState {
+  id: string;
   browser?: Browser;
+  // Set when the browser was connected to rather than launched; closing it only disconnects
+  connection?: BrowserConnection;
+  // Options the browser was launched with
+  launchOptions?: LaunchOptions;
+  // Named contexts of the browser
+  contexts: Map<string, NamedContext>;
+  // Name of the context new tabs open in and whose tabs are listed
+  activeContext?: string;
+  // The active tab, which browser tools act on
   page?: Page;
+  // Every open tab across all contexts, in the order they were opened
+  pages: Page[];
+  // Tabs opened by the pages themselves (popups, target=_blank links) not yet claimed by waitForPopup
+  popups: Page[];
   currentBrowserType: "chromium" | "firefox" | "webkit";
   lastActivity: number;
 }
@@ -23,14 +94,37 @@ export class SessionManager extends EventEmitter {
   private sessions: Map<string, SessionState> = new Map();
   private readonly maxSessions: number;
   private readonly sessionTimeout: number; // in milliseconds
+  // Settings used when a tool call does not specify them
+  private readonly browserDefaults: BrowserSettings;
 
-  constructor(options: { maxSessions?: number; sessionTimeout?: number } = {}) {
+  constructor(
+    options: {
+      maxSessions?: number;
+      sessionTimeout?: number;
+      browserDefaults?: BrowserSettings;
+    } = {}
+  ) {
     super();
     this.maxSessions = options.maxSessions || 10;
     this.sessionTimeout = options.sessionTimeout || 30 * 60 * 1000; // 30 minutes default
+    this.browserDefaults = options.browserDefaults ?? {};
 
-    // Start cleanup interval
-    setInterval(() => this.cleanupInactiveSessions(), 60 * 1000); // Check every minute
+    // Start cleanup interval without keeping the process alive on its own
+    setInterval(() => this.cleanupInactiveSessions(), 60 * 1000).unref(); // Check every minute
+  }
+
+  /**
+   * Number of sessions currently held
+   */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Returns an existing session without creating one or launching a browser
+   */
+  getSession(sessionId: string): SessionState | undefined {
+    return this.sessions.get(sessionId);
   }
 
   async getOrCreateSession(
@@ -53,7 +147,14 @@ export class SessionManager extends EventEmitter {
 
       // Create new session
       session = {
-        currentBrowserType: browserSettings?.browserType || "chromium",
+        id: sessionId,
+        contexts: new Map(),
+        pages: [],
+        popups: [],
+        currentBrowserType:
+          browserSettings?.browserType ||
+          this.browserDefaults.browserType ||
+          "chromium",
         lastActivity: Date.now(),
       };
       this.sessions.set(sessionId, session);
@@ -78,23 +179,48 @@ export class SessionManager extends EventEmitter {
         await this.cleanupSession(session);
       }
 
+      // If browser type is changing, force a new browser instance
+      if (
+        session.browser &&
+        browserSettings?.browserType &&
+        session.currentBrowserType !== browserSettings.browserType
+      ) {
+        await this.cleanupSession(session);
+      }
+
+      // Likewise when a call asks for a different browser to connect to
+      const requestedConnection = connectionOf(browserSettings);
+      if (
+        session.browser &&
+        requestedConnection &&
+        !sameConnection(requestedConnection, session.connection)
+      ) {
+        await this.cleanupSession(session);
+      }
+
+      // Likewise when a call asks for different launch options
+      const launchOptions = this.launchOptionsOf(browserSettings);
+      if (
+        session.browser &&
+        browserSettings?.launchOptions &&
+        !sameLaunchOptions(launchOptions, session.launchOptions)
+      ) {
+        console.log("Launch options changed, relaunching browser...");
+        await this.cleanupSession(session);
+      }
+
       // Launch new browser if needed
       if (!session.browser) {
-        const {
-          viewport,
-          userAgent,
-          headless = false,
-          browserType = "chromium",
-        } = browserSettings ?? {};
-
-        // If browser type is changing, force a new browser instance
-        if (session.browser && session.currentBrowserType !== browserType) {
-          await this.cleanupSession(session);
-        }
-
-        console.log(
-          `Launching new ${browserType} browser instance for session...`
-        );
+        const { headless = this.browserDefaults.headless ?? false } =
+          browserSettings ?? {};
+        const connection =
+          requestedConnection ?? connectionOf(this.browserDefaults);
+        // Only Chromium speaks CDP
+        const browserType = connection?.cdpEndpoint
+          ? "chromium"
+          : browserSettings?.browserType ??
+            this.browserDefaults.browserType ??
+            "chromium";
 
         // Use the appropriate browser engine
         let browserInstance;
@@ -111,33 +237,102 @@ export class SessionManager extends EventEmitter {
             break;
         }
 
-        session.browser = await browserInstance.launch({ headless });
+        const { userDataDir, ...browserLaunchOptions } = launchOptions ?? {};
+        const contextSettings = contextSettingsOf(browserSettings);
+
+        let browser: Browser;
+        let persistentContext: BrowserContext | undefined;
+        if (connection?.cdpEndpoint) {
+          console.log(`Connecting to browser over CDP at ${connection.cdpEndpoint}...`);
+          browser = await chromium.connectOverCDP(connection.cdpEndpoint);
+        } else if (connection?.wsEndpoint) {
+          console.log(
+            `Connecting to ${browserType} browser server at ${connection.wsEndpoint}...`
+          );
+          browser = await browserInstance.connect(connection.wsEndpoint);
+        } else if (userDataDir) {
+          if (browserSettings?.storageState) {
+            throw new Error(
+              "A saved profile cannot be loaded into a persistent userDataDir profile"
+            );
+          }
+          console.log(
+            `Launching ${browserType} with persistent profile ${userDataDir} for session...`
+          );
+          persistentContext = await browserInstance.launchPersistentContext(
+            userDataDir,
+            {
+              headless,
+              ...browserLaunchOptions,
+              ...this.contextOptions(contextSettings),
+            }
+          );
+          browser = persistentContext.browser();
+          if (!browser) {
+            throw new Error("Persistent context is not attached to a browser");
+          }
+          this.emit("browserLaunched", session.id, browserType);
+        } else {
+          console.log(
+            `Launching new ${browserType} browser instance for session...`
+          );
+          browser = await browserInstance.launch({
+            headless,
+            ...browserLaunchOptions,
+          });
+          this.emit("browserLaunched", session.id, browserType);
+        }
+        session.browser = browser;
+        session.connection = connection;
+        session.launchOptions = connection ? undefined : launchOptions;
         session.currentBrowserType = browserType;
 
         // Add cleanup logic when browser is disconnected
-        session.browser.on("disconnected", () => {
+        browser.on("disconnected", () => {
           console.log("Browser disconnected event triggered");
-          this.cleanupSession(session);
+          // A relaunch may already have replaced this browser
+          if (session.browser === browser) {
+            this.cleanupSession(session);
+          }
         });
 
-        const context = await session.browser.newContext({
-          ...(userAgent && { userAgent }),
-          viewport: {
-            width: viewport?.width ?? 1280,
-            height: viewport?.height ?? 720,
-          },
-          deviceScaleFactor: 1,
-        });
-
-        session.page = await context.newPage();
+        // Over CDP, work in the browser's own profile so existing tabs and logins are visible
+        const existingContext =
+          persistentContext ??
+          (connection?.cdpEndpoint ? browser.contexts()[0] : undefined);
+        if (existingContext) {
+          // A persistent context was created with the requested settings; a CDP one was not
+          this.adoptContext(
+            session,
+            DEFAULT_CONTEXT_NAME,
+            existingContext,
+            persistentContext ? contextSettings : {}
+          );
+          session.page =
+            existingContext.pages()[0] ?? (await existingContext.newPage());
+          this.registerPage(session, session.page);
+        } else {
+          await this.createNamedContext(session, DEFAULT_CONTEXT_NAME, {
+            ...contextSettings,
+            storageState: browserSettings?.storageState,
+          });
+        }
       }
 
-      // Verify page is still valid
+      // Verify page is still valid, falling back to another open tab
       if (!session.page || session.page.isClosed()) {
+        session.page = this.contextPages(session)
+          .filter((page) => !page.isClosed())
+          .pop();
+      }
+      if (!session.page) {
         console.log("Page is closed or invalid. Creating new page...");
-        const context =
-          session.browser.contexts()[0] || (await session.browser.newContext());
-        session.page = await context.newPage();
+        let named = session.contexts.get(session.activeContext);
+        if (!named) {
+          named = await this.createNamedContext(session, DEFAULT_CONTEXT_NAME, {});
+        }
+        session.page = await named.context.newPage();
+        this.registerPage(session, session.page);
       }
     } catch (error) {
       console.error("Error ensuring browser:", error);
@@ -146,17 +341,456 @@ export class SessionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Launch options of a call applied over the configured ones
+   */
+  private launchOptionsOf(browserSettings?: BrowserSettings): LaunchOptions | undefined {
+    if (!browserSettings?.launchOptions) {
+      return this.browserDefaults.launchOptions;
+    }
+    return { ...this.browserDefaults.launchOptions, ...browserSettings.launchOptions };
+  }
+
+  /**
+   * Creates a context in the session's browser and makes it the active one.
+   * Settings left out fall back to the configured browser defaults.
+   */
+  private async createNamedContext(
+    session: SessionState,
+    name: string,
+    settings: ContextSettings
+  ): Promise<NamedContext> {
+    const context = await session.browser.newContext(
+      this.contextOptions(settings)
+    );
+
+    const named = this.adoptContext(session, name, context, settings);
+    session.page = await context.newPage();
+    this.registerPage(session, session.page);
+
+    return named;
+  }
+
+  /**
+   * Playwright options for a new context, with the configured defaults filled in
+   */
+  private contextOptions(settings: ContextSettings) {
+    const { device, viewport, storageState, ...emulation } = settings;
+    const descriptor = device ? devices[device] : undefined;
+    if (device && !descriptor) {
+      throw new Error(`Unknown device: ${device}`);
+    }
+    const { defaultBrowserType, ...deviceOptions }: Partial<typeof descriptor> =
+      descriptor ?? {};
+
+    return {
+      ...deviceOptions,
+      ...Object.fromEntries(
+        Object.entries(emulation).filter(([, value]) => value !== undefined)
+      ),
+      ...(storageState && { storageState }),
+      viewport: {
+        width:
+          viewport?.width ??
+          deviceOptions.viewport?.width ??
+          this.browserDefaults.viewport?.width ??
+          1280,
+        height:
+          viewport?.height ??
+          deviceOptions.viewport?.height ??
+          this.browserDefaults.viewport?.height ??
+          720,
+      },
+      deviceScaleFactor:
+        emulation.deviceScaleFactor ?? deviceOptions.deviceScaleFactor ?? 1,
+    };
+  }
+
+  /**
+   * Adds an existing context to the session under a name and makes it the
+   * active one, tracking the pages it already has and every page it opens
+   */
+  private adoptContext(
+    session: SessionState,
+    name: string,
+    context: BrowserContext,
+    settings: ContextSettings
+  ): NamedContext {
+    const named: NamedContext = { name, context, settings };
+    session.contexts.set(name, named);
+    session.activeContext = name;
+
+    for (const page of context.pages()) {
+      this.registerPage(session, page);
+    }
+    // Registers every page the context opens, including popups
+    context.on("page", (page) => this.registerPage(session, page));
+
+    return named;
+  }
+
+  /**
+   * Adds a page to the session's tabs, once
+   */
+  private registerPage(session: SessionState, page: Page): void {
+    if (session.pages.includes(page)) {
+      return;
+    }
+
+    session.pages.push(page);
+    this.emit("pageCreated", session.id, page);
+
+    page.on("popup", (popup) => {
+      this.registerPage(session, popup);
+      session.popups.push(popup);
+      this.emit("popup", session.id, popup);
+    });
+
+    page.on("close", () => {
+      session.pages = session.pages.filter((p) => p !== page);
+      session.popups = session.popups.filter((p) => p !== page);
+      // Fall back to the most recently opened tab of the active context
+      if (session.page === page) {
+        const tabs = this.contextPages(session);
+        session.page = tabs[tabs.length - 1];
+      }
+    });
+  }
+
+  /**
+   * Open tabs of the active context
+   */
+  private contextPages(session: SessionState): Page[] {
+    const active = session.contexts.get(session.activeContext)?.context;
+    return session.pages.filter((page) => page.context() === active);
+  }
+
+  private requireTabs(sessionId: string): SessionState {
+    const session = this.sessions.get(sessionId);
+    if (!session?.browser || !session.page) {
+      throw new Error("No browser is open for this session");
+    }
+    return session;
+  }
+
+  private requireTab(session: SessionState, index: number): Page {
+    const tabs = this.contextPages(session);
+    const page = tabs[index];
+    if (!page) {
+      throw new Error(
+        `No tab at index ${index}. Open tabs: 0-${tabs.length - 1}`
+      );
+    }
+    return page;
+  }
+
+  private requireContext(session: SessionState, name: string): NamedContext {
+    const named = session.contexts.get(name);
+    if (!named) {
+      throw new Error(
+        `No context named "${name}". Contexts: ${[...session.contexts.keys()].join(", ")}`
+      );
+    }
+    return named;
+  }
+
+  /**
+   * Lists the open tabs of the active context along with the index of the active tab
+   */
+  getTabs(sessionId: string): { pages: Page[]; activeIndex: number } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { pages: [], activeIndex: -1 };
+    }
+    const pages = this.contextPages(session);
+    return {
+      pages,
+      activeIndex: session.page ? pages.indexOf(session.page) : -1,
+    };
+  }
+
+  /**
+   * Opens a new tab in the active context and makes it active
+   */
+  async openTab(sessionId: string): Promise<Page> {
+    const session = this.requireTabs(sessionId);
+    const page = await this.requireContext(
+      session,
+      session.activeContext
+    ).context.newPage();
+    this.registerPage(session, page);
+    session.page = page;
+    return page;
+  }
+
+  /**
+   * Makes the tab at the given index of the active context the active tab
+   */
+  async selectTab(sessionId: string, index: number): Promise<Page> {
+    const session = this.requireTabs(sessionId);
+    const page = this.requireTab(session, index);
+    session.page = page;
+    await page.bringToFront();
+    return page;
+  }
+
+  /**
+   * Closes the tab at the given index, or the active tab
+   */
+  async closeTab(sessionId: string, index?: number): Promise<void> {
+    const session = this.requireTabs(sessionId);
+    const page =
+      index === undefined ? session.page : this.requireTab(session, index);
+    await page.close();
+  }
+
+  /**
+   * Returns the latest popup opened since the previous call, waiting for
+   * one to open if there is none yet
+   * @param activate Whether to make the popup the active tab
+   */
+  async waitForPopup(
+    sessionId: string,
+    timeout: number,
+    activate: boolean
+  ): Promise<Page> {
+    const session = this.requireTabs(sessionId);
+
+    let popup = session.popups[session.popups.length - 1];
+    if (!popup) {
+      popup = await new Promise<Page>((resolve, reject) => {
+        const onPopup = (id: string, page: Page) => {
+          if (id !== sessionId) return;
+          clearTimeout(timer);
+          this.off("popup", onPopup);
+          resolve(page);
+        };
+        const timer = setTimeout(() => {
+          this.off("popup", onPopup);
+          reject(new Error(`No popup opened within ${timeout}ms`));
+        }, timeout);
+        this.on("popup", onPopup);
+      });
+    }
+    session.popups = [];
+
+    await popup.waitForLoadState("domcontentloaded").catch(() => {});
+    if (activate) {
+      const owner = [...session.contexts.values()].find(
+        (named) => named.context === popup.context()
+      );
+      if (owner) {
+        session.activeContext = owner.name;
+      }
+      session.page = popup;
+    }
+    return popup;
+  }
+
+  /**
+   * Lists the named contexts of a session along with the active one
+   */
+  getContexts(sessionId: string): {
+    contexts: (NamedContext & { tabCount: number })[];
+    active?: string;
+  } {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { contexts: [] };
+    }
+    return {
+      contexts: [...session.contexts.values()].map((named) => ({
+        ...named,
+        tabCount: session.pages.filter((page) => page.context() === named.context).length,
+      })),
+      active: session.activeContext,
+    };
+  }
+
+  /**
+   * Creates an isolated context with its own cookies and storage and
+   * switches to it, launching the browser first if needed
+   */
+  async createContext(
+    sessionId: string,
+    name: string,
+    settings: ContextSettings
+  ): Promise<NamedContext> {
+    const session = this.requireTabs(sessionId);
+    if (session.contexts.has(name)) {
+      throw new Error(`A context named "${name}" already exists`);
+    }
+    return this.createNamedContext(session, name, settings);
+  }
+
+  /**
+   * Makes a context active, along with its most recently opened tab
+   */
+  async switchContext(sessionId: string, name: string): Promise<NamedContext> {
+    const session = this.requireTabs(sessionId);
+    const named = this.requireContext(session, name);
+    await this.activateContext(session, named);
+    return named;
+  }
+
+  private async activateContext(
+    session: SessionState,
+    named: NamedContext
+  ): Promise<void> {
+    session.activeContext = named.name;
+    const tabs = this.contextPages(session);
+    session.page = tabs[tabs.length - 1];
+    if (!session.page) {
+      session.page = await named.context.newPage();
+      this.registerPage(session, session.page);
+    }
+    await session.page.bringToFront();
+  }
+
+  /**
+   * Closes a context and its tabs. Disposing the active context switches to
+   * the most recently created remaining one.
+   */
+  async disposeContext(sessionId: string, name: string): Promise<void> {
+    const session = this.requireTabs(sessionId);
+    const named = this.requireContext(session, name);
+    if (this.isBrowserProfile(session, name)) {
+      throw new Error(
+        `Context "${name}" is the browser's own profile and cannot be disposed; create a new context instead`
+      );
+    }
+
+    session.contexts.delete(name);
+    await named.context.close();
+
+    if (session.activeContext === name) {
+      const remaining = [...session.contexts.values()];
+      const fallback = remaining[remaining.length - 1];
+      if (fallback) {
+        await this.activateContext(session, fallback);
+      } else {
+        // The next browser tool call opens a fresh default context
+        session.activeContext = undefined;
+        session.page = undefined;
+      }
+    }
+  }
+
+  /**
+   * Replaces the active context with one whose settings include the given
+   * changes, under the same name. Its tabs are closed and the new context
+   * opens a single tab. A saved profile among the changes seeds the new
+   * context in place of the current storage.
+   * @param options.preserveStorage Carry the cookies and localStorage over
+   * @param options.preserveUrl Navigate the new tab to the URL of the active tab
+   */
+  async recreateContext(
+    sessionId: string,
+    changes: ContextSettings,
+    options: { preserveStorage?: boolean; preserveUrl?: boolean } = {}
+  ): Promise<NamedContext> {
+    const session = this.requireTabs(sessionId);
+    const current = this.requireContext(session, session.activeContext);
+    if (this.isBrowserProfile(session, current.name)) {
+      throw new Error(
+        `Context "${current.name}" is the browser's own profile and cannot be recreated; create a new context instead`
+      );
+    }
+
+    const url = session.page.url();
+    // A saved profile only seeds a context once, so the one it was created
+    // from is not loaded again; preserved storage supersedes it
+    const state =
+      changes.storageState ??
+      (options.preserveStorage ? await current.context.storageState() : undefined);
+    const settings = { ...current.settings, ...changes };
+
+    // Create the replacement first so a failure leaves the current context intact
+    const context = await session.browser.newContext({
+      ...this.contextOptions({ ...settings, storageState: undefined }),
+      ...(state && { storageState: state }),
+    });
+    session.contexts.delete(current.name);
+    await current.context.close();
+
+    const named = this.adoptContext(session, current.name, context, settings);
+    session.page = await context.newPage();
+    this.registerPage(session, session.page);
+    if (options.preserveUrl && url && url !== "about:blank") {
+      await session.page.goto(url);
+    }
+
+    return named;
+  }
+
+  /**
+   * Recreates the active context with the given settings when they differ
+   * from the ones it was created with, keeping its cookies and storage unless
+   * a different saved profile is requested. Returns the recreated context and
+   * the tabs it closed, or undefined when nothing changed.
+   */
+  async applyContextSettings(
+    sessionId: string,
+    changes: ContextSettings
+  ): Promise<RecreatedContext | undefined> {
+    const session = this.requireTabs(sessionId);
+    const current = this.requireContext(session, session.activeContext);
+    const changed = Object.entries(changes)
+      .filter(
+        ([key, value]) =>
+          JSON.stringify(value) !==
+          JSON.stringify(current.settings[key as keyof ContextSettings])
+      )
+      .map(([key]) => key as keyof ContextSettings);
+    if (changed.length === 0) {
+      return undefined;
+    }
+
+    if (this.isBrowserProfile(session, current.name)) {
+      // Callers pass a saved profile as its storage state file
+      const names = changed.map((key) => (key === "storageState" ? "profile" : key));
+      throw new Error(
+        `Context "${current.name}" is the browser's own profile, so ${names.join(", ")} cannot be changed; ` +
+          `create a context with these settings using playwright_create_context instead`
+      );
+    }
+
+    const closedTabs = this.contextPages(session).map((page) => page.url());
+    console.log(`Context settings changed, recreating context "${current.name}"...`);
+    const context = await this.recreateContext(sessionId, changes, { preserveStorage: true });
+    return { context, changed, closedTabs };
+  }
+
+  /**
+   * Whether a context is the browser's own profile rather than one this server
+   * created: the default context over CDP or of a persistent launch
+   */
+  private isBrowserProfile(session: SessionState, name: string): boolean {
+    return (
+      name === DEFAULT_CONTEXT_NAME &&
+      (!!session.connection?.cdpEndpoint || !!session.launchOptions?.userDataDir)
+    );
+  }
+
   private async cleanupSession(session: SessionState): Promise<void> {
+    const browser = session.browser;
+    session.browser = undefined;
+    session.connection = undefined;
+    session.launchOptions = undefined;
+    session.contexts = new Map();
+    session.activeContext = undefined;
+    session.page = undefined;
+    session.pages = [];
+    session.popups = [];
+
     try {
-      if (session.browser) {
-        await session.browser.close().catch(() => {});
+      // Closing a browser that was connected to only disconnects from it
+      if (browser) {
+        await browser.close().catch(() => {});
       }
     } catch (e) {
       // Ignore errors during cleanup
     }
-
-    session.browser = undefined;
-    session.page = undefined;
   }
 
   private async cleanupInactiveSessions(): Promise<void> {
@@ -167,11 +801,23 @@ export class SessionManager extends EventEmitter {
         console.log(`Cleaning up inactive session: ${sessionId}`);
         await this.cleanupSession(session);
         this.sessions.delete(sessionId);
+        this.emit("sessionEvicted", sessionId);
         this.emit("sessionClosed", sessionId);
       }
     }
   }
 
+  /**
+   * Closes the browser of a session but keeps the session itself,
+   * so the next browser tool call launches a fresh instance
+   */
+  async resetBrowser(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      await this.cleanupSession(session);
+    }
+  }
+
   async closeSession(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (session) {
@@ -189,3 +835,38 @@ export class SessionManager extends EventEmitter {
     }
   }
 }
+
+/**
+ * The connection a set of settings asks for, if any
+ */
+function connectionOf(settings?: BrowserConnection): BrowserConnection | undefined {
+  if (settings?.cdpEndpoint) {
+    return { cdpEndpoint: settings.cdpEndpoint };
+  }
+  if (settings?.wsEndpoint) {
+    return { wsEndpoint: settings.wsEndpoint };
+  }
+  return undefined;
+}
+
+function sameConnection(a?: BrowserConnection, b?: BrowserConnection): boolean {
+  return a?.cdpEndpoint === b?.cdpEndpoint && a?.wsEndpoint === b?.wsEndpoint;
+}
+
+// The part of browser settings that configures a context, leaving out the saved profile
+function contextSettingsOf(settings?: BrowserSettings): ContextSettings {
+  const {
+    headless,
+    browserType,
+    launchOptions,
+    cdpEndpoint,
+    wsEndpoint,
+    storageState,
+    ...contextSettings
+  } = settings ?? {};
+  return contextSettings;
+}
+
+function sameLaunchOptions(a?: LaunchOptions, b?: LaunchOptions): boolean {
+  return JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+}
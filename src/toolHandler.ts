@@ -1,21 +1,57 @@
-import type { Browser, Page } from "playwright";
-import { chromium, firefox, webkit, request } from "playwright";
+import { request } from "playwright";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { BROWSER_TOOLS, API_TOOLS } from "./tools.js";
-import type { ToolContext } from "./tools/common/types.js";
+import { BROWSER_TOOLS, API_TOOLS, URL_TOOLS } from "./tools.js";
+import type {
+  ToolContext,
+  ToolHandler as ToolImplementation,
+} from "./tools/common/types.js";
 import {
   ScreenshotTool,
   NavigationTool,
+  GoBackTool,
+  GoForwardTool,
+  ReloadTool,
   CloseBrowserTool,
   ConsoleLogsTool,
   ExpectResponseTool,
   AssertResponseTool,
   CustomUserAgentTool,
 } from "./tools/browser/index.js";
+import {
+  ListTabsTool,
+  NewTabTool,
+  SwitchTabTool,
+  CloseTabTool,
+  WaitForPopupTool,
+} from "./tools/browser/tabs.js";
+import {
+  CreateContextTool,
+  ListContextsTool,
+  SwitchContextTool,
+  DisposeContextTool,
+} from "./tools/browser/contexts.js";
+import {
+  SetViewportTool,
+  SetGeolocationTool,
+  GrantPermissionsTool,
+  RevokePermissionsTool,
+  SetOfflineTool,
+  EmulateMediaTool,
+  SetExtraHeadersTool,
+} from "./tools/browser/emulation.js";
 import {
   ClickTool,
+  ClickAtTool,
+  MouseWheelTool,
+  DragTool,
   IframeClickTool,
   FillTool,
+  CheckTool,
+  UncheckTool,
+  PressKeyTool,
+  TypeTool,
+  KeyDownTool,
+  KeyUpTool,
   SelectTool,
   HoverTool,
   EvaluateTool,
@@ -28,221 +64,135 @@ import {
   DeleteRequestTool,
 } from "./tools/api/requests.js";
 import { SessionManager } from "./sessionManager.js";
-import { z } from "zod";
-import path from "path";
-import fs from "fs";
-
-// Global state
-let browser: Browser | undefined;
-let page: Page | undefined;
-let currentBrowserType: "chromium" | "firefox" | "webkit" = "chromium";
+import type { BrowserSettings, RecreatedContext } from "./sessionManager.js";
+import type { Metrics } from "./metrics.js";
+import { isUrlAllowed, CallLaunchOptionsSchema, formatIssues } from "./config.js";
+import type { ProfileStore } from "./profiles.js";
+import { SaveProfileTool } from "./tools/browser/profiles.js";
+import { UploadFileTool } from "./tools/browser/upload.js";
+import { SnapshotTool } from "./tools/browser/snapshot.js";
+import {
+  GetVisibleTextTool,
+  GetVisibleHtmlTool,
+  GetMarkdownTool,
+  ListInteractiveElementsTool,
+} from "./tools/browser/content.js";
+import { ExtractTool } from "./tools/browser/extract.js";
+import { ExtractTableTool } from "./tools/browser/table.js";
+import { WaitForTool } from "./tools/browser/wait.js";
+import {
+  ListDevicesTool,
+  emulationSettings,
+  unknownDeviceError,
+} from "./tools/browser/devices.js";
 
 /**
- * Resets browser and page variables
- * Used when browser is closed
+ * Tells the client that navigating replaced its context, which closes its
+ * tabs and drops emulation applied at runtime
  */
-export function resetBrowserState() {
-  browser = undefined;
-  page = undefined;
-  currentBrowserType = "chromium";
+function describeRecreatedContext({ context, changed, closedTabs }: RecreatedContext): string {
+  const storage = changed.includes("storageState")
+    ? "Cookies and localStorage were replaced with the saved profile"
+    : "Cookies and localStorage were kept";
+  const emulation = changed.some((key) => key !== "storageState");
+  return [
+    `Browser context "${context.name}" was recreated to apply the new ` +
+      `${emulation ? "emulation settings" : "profile"}. ${storage}; emulation set with ` +
+      "playwright_set_viewport, playwright_set_geolocation, playwright_set_offline " +
+      "and the other emulation tools was reset.",
+    `Closed tabs (${closedTabs.length}):`,
+    ...closedTabs.map((url, index) => `[${index}] ${url}`),
+  ].join("\n");
 }
 
-// Tool instances
-let screenshotTool: ScreenshotTool;
-let navigationTool: NavigationTool;
-let closeBrowserTool: CloseBrowserTool;
-let consoleLogsTool: ConsoleLogsTool;
-let clickTool: ClickTool;
-let iframeClickTool: IframeClickTool;
-let fillTool: FillTool;
-let selectTool: SelectTool;
-let hoverTool: HoverTool;
-let evaluateTool: EvaluateTool;
-let expectResponseTool: ExpectResponseTool;
-let assertResponseTool: AssertResponseTool;
-let customUserAgentTool: CustomUserAgentTool;
-let getRequestTool: GetRequestTool;
-let postRequestTool: PostRequestTool;
-let putRequestTool: PutRequestTool;
-let patchRequestTool: PatchRequestTool;
-let deleteRequestTool: DeleteRequestTool;
-
-interface BrowserSettings {
-  viewport?: {
-    width?: number;
-    height?: number;
-  };
-  userAgent?: string;
-  headless?: boolean;
-  browserType?: "chromium" | "firefox" | "webkit";
+/**
+ * Tool instances owned by a single session
+ */
+interface SessionTools {
+  consoleLogsTool: ConsoleLogsTool;
+  screenshotTool: ScreenshotTool;
+  closeBrowserTool: CloseBrowserTool;
+  tools: Record<string, ToolImplementation>;
 }
 
 /**
- * Ensures a browser is launched and returns the page
+ * Creates the tool instances for a session
  */
-async function ensureBrowser(browserSettings?: BrowserSettings) {
-  try {
-    // Check if browser exists but is disconnected
-    if (browser && !(browser as Browser).isConnected()) {
-      console.error("Browser exists but is disconnected. Cleaning up...");
-      try {
-        if ((browser as Browser).isConnected()) {
-          await (browser as Browser).close();
-        }
-      } catch (e) {
-        // Ignore errors when closing disconnected browser
-      }
-      // Reset browser and page references
-      resetBrowserState();
-    }
-
-    // Launch new browser if needed
-    if (!browser) {
-      const {
-        viewport,
-        userAgent,
-        headless = false,
-        browserType = "chromium",
-      } = browserSettings ?? {};
-
-      // If browser type is changing, force a new browser instance
-      if (browser && currentBrowserType !== browserType) {
-        try {
-          if (browser.isConnected()) {
-            await browser.close();
-          }
-        } catch (e) {
-          // Ignore errors
-        }
-        resetBrowserState();
-      }
-
-      console.error(`Launching new ${browserType} browser instance...`);
-
-      // Use the appropriate browser engine
-      let browserInstance;
-      switch (browserType) {
-        case "firefox":
-          browserInstance = firefox;
-          break;
-        case "webkit":
-          browserInstance = webkit;
-          break;
-        case "chromium":
-        default:
-          browserInstance = chromium;
-          break;
-      }
-
-      browser = await browserInstance.launch({ headless });
-      currentBrowserType = browserType;
-
-      // Add cleanup logic when browser is disconnected
-      browser.on("disconnected", () => {
-        console.error("Browser disconnected event triggered");
-        browser = undefined;
-        page = undefined;
-      });
-
-      const context = await browser.newContext({
-        ...(userAgent && { userAgent }),
-        viewport: {
-          width: viewport?.width ?? 1280,
-          height: viewport?.height ?? 720,
-        },
-        deviceScaleFactor: 1,
-      });
-
-      page = await context.newPage();
-
-      // Register console message handler
-      page.on("console", (msg) => {
-        if (consoleLogsTool) {
-          consoleLogsTool.registerConsoleMessage(msg.type(), msg.text());
-        }
-      });
-    }
-
-    // Verify page is still valid
-    if (!page || page.isClosed()) {
-      console.error("Page is closed or invalid. Creating new page...");
-      // Create a new page if the current one is invalid
-      const context = browser.contexts()[0] || (await browser.newContext());
-      page = await context.newPage();
-
-      // Re-register console message handler
-      page.on("console", (msg) => {
-        if (consoleLogsTool) {
-          consoleLogsTool.registerConsoleMessage(msg.type(), msg.text());
-        }
-      });
-    }
-
-    return page!;
-  } catch (error) {
-    console.error("Error ensuring browser:", error);
-    // If something went wrong, clean up completely and retry once
-    try {
-      if (browser && browser.isConnected()) {
-        await browser.close();
-      }
-    } catch (e) {
-      // Ignore errors during cleanup
-    }
-
-    resetBrowserState();
-
-    // Try one more time from scratch
-    const {
-      viewport,
-      userAgent,
-      headless = false,
-      browserType = "chromium",
-    } = browserSettings ?? {};
-
-    // Use the appropriate browser engine
-    let browserInstance;
-    switch (browserType) {
-      case "firefox":
-        browserInstance = firefox;
-        break;
-      case "webkit":
-        browserInstance = webkit;
-        break;
-      case "chromium":
-      default:
-        browserInstance = chromium;
-        break;
-    }
-
-    browser = await browserInstance.launch({ headless });
-    currentBrowserType = browserType;
-
-    browser.on("disconnected", () => {
-      console.error("Browser disconnected event triggered (retry)");
-      browser = undefined;
-      page = undefined;
-    });
-
-    const context = await browser.newContext({
-      ...(userAgent && { userAgent }),
-      viewport: {
-        width: viewport?.width ?? 1280,
-        height: viewport?.height ?? 720,
-      },
-      deviceScaleFactor: 1,
-    });
-
-    page = await context.newPage();
-
-    page.on("console", (msg) => {
-      if (consoleLogsTool) {
-        consoleLogsTool.registerConsoleMessage(msg.type(), msg.text());
-      }
-    });
+function createSessionTools(
+  server: any,
+  options: { screenshotDir?: string; uploadDir?: string; profiles?: ProfileStore }
+): SessionTools {
+  const consoleLogsTool = new ConsoleLogsTool(server);
+  const screenshotTool = new ScreenshotTool(server, options.screenshotDir);
+  const closeBrowserTool = new CloseBrowserTool(server);
+
+  return {
+    consoleLogsTool,
+    screenshotTool,
+    closeBrowserTool,
+    tools: {
+      // Browser tools
+      playwright_navigate: new NavigationTool(server),
+      playwright_go_back: new GoBackTool(server),
+      playwright_go_forward: new GoForwardTool(server),
+      playwright_reload: new ReloadTool(server),
+      playwright_screenshot: screenshotTool,
+      playwright_snapshot: new SnapshotTool(server),
+      playwright_close: closeBrowserTool,
+      playwright_console_logs: consoleLogsTool,
+      playwright_click: new ClickTool(server),
+      playwright_click_at: new ClickAtTool(server),
+      playwright_mouse_wheel: new MouseWheelTool(server),
+      playwright_drag: new DragTool(server),
+      playwright_iframe_click: new IframeClickTool(server),
+      playwright_fill: new FillTool(server),
+      playwright_check: new CheckTool(server),
+      playwright_uncheck: new UncheckTool(server),
+      playwright_upload_file: new UploadFileTool(server, options.uploadDir),
+      playwright_press_key: new PressKeyTool(server),
+      playwright_type: new TypeTool(server),
+      playwright_key_down: new KeyDownTool(server),
+      playwright_key_up: new KeyUpTool(server),
+      playwright_select: new SelectTool(server),
+      playwright_hover: new HoverTool(server),
+      playwright_evaluate: new EvaluateTool(server),
+      playwright_get_visible_text: new GetVisibleTextTool(server),
+      playwright_get_visible_html: new GetVisibleHtmlTool(server),
+      playwright_get_markdown: new GetMarkdownTool(server),
+      playwright_list_interactive_elements: new ListInteractiveElementsTool(server),
+      playwright_extract: new ExtractTool(server),
+      playwright_extract_table: new ExtractTableTool(server, options.screenshotDir),
+      playwright_wait_for: new WaitForTool(server),
+      playwright_expect_response: new ExpectResponseTool(server),
+      playwright_assert_response: new AssertResponseTool(server),
+      playwright_custom_user_agent: new CustomUserAgentTool(server),
+      playwright_list_tabs: new ListTabsTool(server),
+      playwright_new_tab: new NewTabTool(server),
+      playwright_switch_tab: new SwitchTabTool(server),
+      playwright_close_tab: new CloseTabTool(server),
+      playwright_wait_for_popup: new WaitForPopupTool(server),
+      playwright_create_context: new CreateContextTool(server, options.profiles),
+      playwright_list_contexts: new ListContextsTool(server),
+      playwright_switch_context: new SwitchContextTool(server),
+      playwright_dispose_context: new DisposeContextTool(server),
+      playwright_save_profile: new SaveProfileTool(server, options.profiles),
+      playwright_list_devices: new ListDevicesTool(server),
+      playwright_set_viewport: new SetViewportTool(server),
+      playwright_set_geolocation: new SetGeolocationTool(server),
+      playwright_grant_permissions: new GrantPermissionsTool(server),
+      playwright_revoke_permissions: new RevokePermissionsTool(server),
+      playwright_set_offline: new SetOfflineTool(server),
+      playwright_emulate_media: new EmulateMediaTool(server),
+      playwright_set_extra_headers: new SetExtraHeadersTool(server),
 
-    return page!;
-  }
+      // API tools
+      playwright_get: new GetRequestTool(server),
+      playwright_post: new PostRequestTool(server),
+      playwright_put: new PutRequestTool(server),
+      playwright_patch: new PatchRequestTool(server),
+      playwright_delete: new DeleteRequestTool(server),
+    },
+  };
 }
 
 /**
@@ -255,445 +205,384 @@ async function ensureApiContext(url: string) {
 }
 
 /**
- * Initialize all tool instances
+ * Executes tool calls against per-session browser state.
+ * Every transport routes its tool calls through this class.
  */
-function initializeTools(server: any) {
-  // Browser tools
-  if (!screenshotTool) screenshotTool = new ScreenshotTool(server);
-  if (!navigationTool) navigationTool = new NavigationTool(server);
-  if (!closeBrowserTool) closeBrowserTool = new CloseBrowserTool(server);
-  if (!consoleLogsTool) consoleLogsTool = new ConsoleLogsTool(server);
-  if (!clickTool) clickTool = new ClickTool(server);
-  if (!iframeClickTool) iframeClickTool = new IframeClickTool(server);
-  if (!fillTool) fillTool = new FillTool(server);
-  if (!selectTool) selectTool = new SelectTool(server);
-  if (!hoverTool) hoverTool = new HoverTool(server);
-  if (!evaluateTool) evaluateTool = new EvaluateTool(server);
-  if (!expectResponseTool) expectResponseTool = new ExpectResponseTool(server);
-  if (!assertResponseTool) assertResponseTool = new AssertResponseTool(server);
-  if (!customUserAgentTool)
-    customUserAgentTool = new CustomUserAgentTool(server);
-
-  // API tools
-  if (!getRequestTool) getRequestTool = new GetRequestTool(server);
-  if (!postRequestTool) postRequestTool = new PostRequestTool(server);
-  if (!putRequestTool) putRequestTool = new PutRequestTool(server);
-  if (!patchRequestTool) patchRequestTool = new PatchRequestTool(server);
-  if (!deleteRequestTool) deleteRequestTool = new DeleteRequestTool(server);
-}
+export class ToolHandler {
+  private sessionManager: SessionManager;
+  private sessionTools = new Map<string, SessionTools>();
+
+  private metrics?: Metrics;
+  private screenshotDir?: string;
+  private uploadDir?: string;
+  private profiles?: ProfileStore;
+  private allowedUrlPatterns: string[];
+
+  constructor(options?: {
+    maxSessions?: number;
+    sessionTimeout?: number;
+    // Browser settings used when a tool call does not specify them
+    browserDefaults?: BrowserSettings;
+    // Default directory for saved screenshots
+    screenshotDir?: string;
+    // Directory local files may be uploaded from
+    uploadDir?: string;
+    // URL globs that navigation and API requests must match; empty allows all
+    allowedUrlPatterns?: string[];
+    // Saved storage state profiles that sessions and contexts can start from
+    profiles?: ProfileStore;
+    metrics?: Metrics;
+  }) {
+    this.sessionManager = new SessionManager(options);
+    this.metrics = options?.metrics;
+    this.screenshotDir = options?.screenshotDir;
+    this.uploadDir = options?.uploadDir;
+    this.profiles = options?.profiles;
+    this.allowedUrlPatterns = options?.allowedUrlPatterns ?? [];
+
+    // Forward console messages of every page to the owning session
+    this.sessionManager.on("pageCreated", (sessionId: string, page) => {
+      page.on("console", (msg) => {
+        this.sessionTools
+          .get(sessionId)
+          ?.consoleLogsTool.registerConsoleMessage(msg.type(), msg.text());
+      });
+    });
 
-/**
- * Main handler for tool calls
- */
-export async function handleToolCall(
-  name: string,
-  args: any,
-  server: any
-): Promise<CallToolResult> {
-  // Initialize tools
-  initializeTools(server);
-
-  // Special case for browser close to ensure it always works
-  if (name === "playwright_close") {
-    if (browser) {
-      try {
-        if (browser.isConnected()) {
-          await browser
-            .close()
-            .catch((e) => console.error("Error closing browser:", e));
-        }
-      } catch (error) {
-        console.error("Error during browser close in handler:", error);
-      } finally {
-        resetBrowserState();
-      }
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Browser closed successfully",
-          },
-        ],
-        isError: false,
-      };
+    this.sessionManager.on("sessionClosed", (sessionId: string) => {
+      this.sessionTools.delete(sessionId);
+    });
+
+    this.sessionManager.on("browserLaunched", (_sessionId: string, browserType: string) => {
+      this.metrics?.recordBrowserLaunch(browserType);
+    });
+
+    this.sessionManager.on("sessionEvicted", () => {
+      this.metrics?.recordSessionEviction();
+    });
+  }
+
+  /**
+   * Number of browser sessions currently held
+   */
+  get activeSessions(): number {
+    return this.sessionManager.size;
+  }
+
+  private getSessionTools(sessionId: string, server: any): SessionTools {
+    let sessionTools = this.sessionTools.get(sessionId);
+    if (!sessionTools) {
+      sessionTools = createSessionTools(server, {
+        screenshotDir: this.screenshotDir,
+        uploadDir: this.uploadDir,
+        profiles: this.profiles,
+      });
+      this.sessionTools.set(sessionId, sessionTools);
     }
-    return {
-      content: [
-        {
-          type: "text",
-          text: "No browser instance to close",
-        },
-      ],
-      isError: false,
-    };
+    return sessionTools;
   }
 
-  // Check if we have a disconnected browser that needs cleanup
-  if (browser && !browser.isConnected() && BROWSER_TOOLS.includes(name)) {
-    console.error(
-      "Detected disconnected browser before tool execution, cleaning up..."
-    );
+  /**
+   * Main handler for tool calls
+   */
+  async handleToolCall(
+    sessionId: string,
+    name: string,
+    args: any,
+    server: any
+  ): Promise<CallToolResult> {
+    const startedAt = performance.now();
+    // A call that throws counts as an error
+    let isError = true;
     try {
-      await browser.close().catch(() => {}); // Ignore errors
-    } catch (e) {
-      // Ignore any errors during cleanup
+      const result = await this.executeToolCall(sessionId, name, args, server);
+      isError = !!result.isError;
+      return result;
+    } finally {
+      this.metrics?.recordToolCall(
+        name,
+        (performance.now() - startedAt) / 1000,
+        isError
+      );
     }
-    resetBrowserState();
   }
 
-  // Prepare context based on tool requirements
-  const context: ToolContext = {
-    server,
-  };
-
-  // Set up browser if needed
-  if (BROWSER_TOOLS.includes(name)) {
-    const browserSettings = {
-      viewport: {
-        width: args.width,
-        height: args.height,
-      },
-      userAgent:
-        name === "playwright_custom_user_agent" ? args.userAgent : undefined,
-      headless: args.headless,
-      browserType: args.browserType || "chromium",
-    };
-
-    try {
-      context.page = await ensureBrowser(browserSettings);
-      context.browser = browser;
-    } catch (error) {
-      console.error("Failed to ensure browser:", error);
+  private async executeToolCall(
+    sessionId: string,
+    name: string,
+    args: any,
+    server: any
+  ): Promise<CallToolResult> {
+    const sessionTools = this.getSessionTools(sessionId, server);
+    const tool = sessionTools.tools[name];
+
+    if (!tool) {
       return {
         content: [
           {
             type: "text",
-            text: `Failed to initialize browser: ${
-              (error as Error).message
-            }. Please try again.`,
+            text: `Unknown tool: ${name}`,
           },
         ],
         isError: true,
       };
     }
-  }
 
-  // Set up API context if needed
-  if (API_TOOLS.includes(name)) {
-    try {
-      context.apiContext = await ensureApiContext(args.url);
-    } catch (error) {
+    if (
+      URL_TOOLS.includes(name) &&
+      typeof args?.url === "string" &&
+      !isUrlAllowed(args.url, this.allowedUrlPatterns)
+    ) {
       return {
         content: [
           {
             type: "text",
-            text: `Failed to initialize API context: ${
-              (error as Error).message
-            }`,
+            text: `URL not allowed: ${args.url}. Allowed patterns: ${this.allowedUrlPatterns.join(", ")}`,
           },
         ],
         isError: true,
       };
     }
-  }
-
-  // Route to appropriate tool
-  try {
-    switch (name) {
-      // Browser tools
-      case "playwright_navigate":
-        return await navigationTool.execute(args, context);
-
-      case "playwright_screenshot":
-        return await screenshotTool.execute(args, context);
-
-      case "playwright_close":
-        return await closeBrowserTool.execute(args, context);
-
-      case "playwright_console_logs":
-        return await consoleLogsTool.execute(args, context);
 
-      case "playwright_click":
-        return await clickTool.execute(args, context);
-
-      case "playwright_iframe_click":
-        return await iframeClickTool.execute(args, context);
-
-      case "playwright_fill":
-        return await fillTool.execute(args, context);
-
-      case "playwright_select":
-        return await selectTool.execute(args, context);
-
-      case "playwright_hover":
-        return await hoverTool.execute(args, context);
-
-      case "playwright_evaluate":
-        return await evaluateTool.execute(args, context);
-
-      case "playwright_expect_response":
-        return await expectResponseTool.execute(args, context);
+    // Prepare context based on tool requirements
+    const context: ToolContext = {
+      server,
+      resetBrowserState: () => {
+        this.sessionManager.resetBrowser(sessionId);
+      },
+      tabs: {
+        list: () => this.sessionManager.getTabs(sessionId),
+        open: () => this.sessionManager.openTab(sessionId),
+        select: (index) => this.sessionManager.selectTab(sessionId, index),
+        close: (index) => this.sessionManager.closeTab(sessionId, index),
+        waitForPopup: (timeout, activate) =>
+          this.sessionManager.waitForPopup(sessionId, timeout, activate),
+      },
+      contexts: {
+        list: () => this.sessionManager.getContexts(sessionId),
+        create: (contextName, settings) =>
+          this.sessionManager.createContext(sessionId, contextName, settings),
+        switch: (contextName) =>
+          this.sessionManager.switchContext(sessionId, contextName),
+        dispose: (contextName) =>
+          this.sessionManager.disposeContext(sessionId, contextName),
+        recreate: (changes, options) =>
+          this.sessionManager.recreateContext(sessionId, changes, options),
+      },
+    };
 
-      case "playwright_assert_response":
-        return await assertResponseTool.execute(args, context);
+    // Closing must never launch a browser just to close it again
+    if (name === "playwright_close") {
+      const session = this.sessionManager.getSession(sessionId);
+      context.browser = session?.browser;
+      context.connectedBrowser = !!session?.connection;
+      return await sessionTools.closeBrowserTool.execute(args, context);
+    }
 
-      case "playwright_custom_user_agent":
-        return await customUserAgentTool.execute(args, context);
+    // Set up browser if needed
+    let profile: string | undefined;
+    if (BROWSER_TOOLS.includes(name)) {
+      const browserSettings: BrowserSettings = {
+        viewport: {
+          width: args.width,
+          height: args.height,
+        },
+        userAgent:
+          name === "playwright_custom_user_agent" ? args.userAgent : undefined,
+        headless: args.headless,
+        browserType: args.browserType,
+        ...(name === "playwright_navigate" && {
+          cdpEndpoint: args.cdpEndpoint,
+          wsEndpoint: args.wsEndpoint,
+          ...emulationSettings(args),
+        }),
+      };
 
-      // API tools
-      case "playwright_get":
-        return await getRequestTool.execute(args, context);
+      const deviceError =
+        name === "playwright_navigate" && unknownDeviceError(args.device);
+      if (deviceError) {
+        return {
+          content: [{ type: "text", text: deviceError }],
+          isError: true,
+        };
+      }
 
-      case "playwright_post":
-        return await postRequestTool.execute(args, context);
+      if (name === "playwright_navigate" && args.launchOptions) {
+        const parsed = CallLaunchOptionsSchema.safeParse(args.launchOptions);
+        if (!parsed.success) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Invalid launchOptions: ${formatIssues(parsed.error).join("; ")}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        browserSettings.launchOptions = parsed.data;
+      }
 
-      case "playwright_put":
-        return await putRequestTool.execute(args, context);
+      // A profile seeds the context a launch starts with; a running session
+      // recreates its active context from it below
+      if (name === "playwright_navigate" && args.profile) {
+        try {
+          if (!this.profiles) {
+            throw new Error("Storage state profiles are not configured");
+          }
+          profile = await this.profiles.resolve(args.profile);
+          browserSettings.storageState = profile;
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to load profile: ${(error as Error).message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
 
-      case "playwright_patch":
-        return await patchRequestTool.execute(args, context);
+      try {
+        const session = await this.sessionManager.getOrCreateSession(
+          sessionId,
+          browserSettings
+        );
+        context.page = session.page;
+        context.browser = session.browser;
+      } catch (error) {
+        console.error("Failed to ensure browser:", error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to initialize browser: ${
+                (error as Error).message
+              }. Please try again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
 
-      case "playwright_delete":
-        return await deleteRequestTool.execute(args, context);
+    // Context options are fixed when a context is created, so a running
+    // session recreates its active context to apply different ones
+    let recreated: RecreatedContext | undefined;
+    if (name === "playwright_navigate") {
+      try {
+        recreated = await this.sessionManager.applyContextSettings(sessionId, {
+          ...emulationSettings(args),
+          ...(profile && { storageState: profile }),
+        });
+        if (recreated) {
+          context.page = this.sessionManager.getSession(sessionId)?.page;
+        }
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to apply context settings: ${(error as Error).message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
 
-      default:
+    // Set up API context if needed
+    if (API_TOOLS.includes(name)) {
+      try {
+        context.apiContext = await ensureApiContext(args.url);
+      } catch (error) {
         return {
           content: [
             {
               type: "text",
-              text: `Unknown tool: ${name}`,
+              text: `Failed to initialize API context: ${
+                (error as Error).message
+              }`,
             },
           ],
           isError: true,
         };
+      }
     }
-  } catch (error) {
-    console.error(`Error executing tool ${name}:`, error);
 
-    // Check if it's a browser connection error
-    const errorMessage = (error as Error).message;
-    if (
-      BROWSER_TOOLS.includes(name) &&
-      (errorMessage.includes(
-        "Target page, context or browser has been closed"
-      ) ||
-        errorMessage.includes("Browser has been disconnected") ||
-        errorMessage.includes("Target closed") ||
-        errorMessage.includes("Protocol error"))
-    ) {
-      // Reset browser state if it's a connection issue
-      resetBrowserState();
+    try {
+      const result = await tool.execute(args, context);
+      if (recreated) {
+        result.content.push({ type: "text", text: describeRecreatedContext(recreated) });
+      }
+      return result;
+    } catch (error) {
+      console.error(`Error executing tool ${name}:`, error);
+
+      // Check if it's a browser connection error
+      const errorMessage = (error as Error).message;
+      if (
+        BROWSER_TOOLS.includes(name) &&
+        (errorMessage.includes(
+          "Target page, context or browser has been closed"
+        ) ||
+          errorMessage.includes("Browser has been disconnected") ||
+          errorMessage.includes("Target closed") ||
+          errorMessage.includes("Protocol error")) &&
+        // A closed tab or context leaves the rest of the session usable
+        !context.browser?.isConnected()
+      ) {
+        // Reset browser state if it's a connection issue
+        context.resetBrowserState();
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Browser connection error: ${errorMessage}. Browser state has been reset, please try again.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
       return {
         content: [
           {
             type: "text",
-            text: `Browser connection error: ${errorMessage}. Browser state has been reset, please try again.`,
+            text: `Tool execution error: ${errorMessage}`,
           },
         ],
         isError: true,
       };
     }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Tool execution error: ${errorMessage}`,
-        },
-      ],
-      isError: true,
-    };
   }
-}
-
-/**
- * Get console logs
- */
-export function getConsoleLogs(): string[] {
-  return consoleLogsTool?.getConsoleLogs() ?? [];
-}
-
-/**
- * Get screenshots
- */
-export function getScreenshots(): Map<string, string> {
-  return screenshotTool?.getScreenshots() ?? new Map();
-}
 
-export class ToolHandler {
-  private sessionManager: SessionManager;
-
-  constructor(options?: { maxSessions?: number; sessionTimeout?: number }) {
-    this.sessionManager = new SessionManager(options);
-  }
-
-  private async getSession(
-    sessionId: string,
-    browserSettings?: BrowserSettings
-  ) {
-    return this.sessionManager.getOrCreateSession(sessionId, browserSettings);
-  }
-
-  async navigate(
-    sessionId: string,
-    params: {
-      url: string;
-      browserType: "chromium" | "firefox" | "webkit";
-      width: number;
-      height: number;
-      timeout: number;
-      waitUntil: string;
-      headless: boolean;
-    }
-  ) {
-    const session = await this.getSession(sessionId, {
-      browserType: params.browserType,
-      viewport: {
-        width: params.width,
-        height: params.height,
-      },
-      headless: params.headless,
-    });
-
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    await session.page.goto(params.url, {
-      timeout: params.timeout,
-      waitUntil: params.waitUntil as any,
-    });
-  }
-
-  async screenshot(
-    sessionId: string,
-    params: {
-      name: string;
-      selector: string;
-      width: number;
-      height: number;
-      storeBase64: boolean;
-      fullPage: boolean;
-      savePng: boolean;
-      downloadsDir: string;
-    }
-  ) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    let element = null;
-    if (params.selector !== "page") {
-      element = await session.page.$(params.selector);
-      if (!element) {
-        throw new Error(`Element not found: ${params.selector}`);
-      }
-    }
-
-    const screenshotOptions: any = {
-      fullPage: params.fullPage,
-    };
-
-    if (params.savePng) {
-      const filePath = path.join(params.downloadsDir, `${params.name}.png`);
-      fs.mkdirSync(params.downloadsDir, { recursive: true });
-      screenshotOptions.path = filePath;
-    }
-
-    const screenshot = element
-      ? await element.screenshot(screenshotOptions)
-      : await session.page.screenshot(screenshotOptions);
-
-    return params.storeBase64 ? screenshot.toString("base64") : null;
+  /**
+   * Get console logs of a session
+   */
+  getConsoleLogs(sessionId: string): string[] {
+    return this.sessionTools.get(sessionId)?.consoleLogsTool.getConsoleLogs() ?? [];
   }
 
-  async click(sessionId: string, params: { selector: string }) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    await session.page.click(params.selector);
-  }
-
-  async iframeClick(
-    sessionId: string,
-    params: { iframeSelector: string; selector: string }
-  ) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    const frame = await session.page.frame({ url: params.iframeSelector });
-    if (!frame) {
-      throw new Error(`Iframe not found: ${params.iframeSelector}`);
-    }
-
-    await frame.click(params.selector);
-  }
-
-  async fill(sessionId: string, params: { selector: string; value: string }) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    await session.page.fill(params.selector, params.value);
-  }
-
-  async select(sessionId: string, params: { selector: string; value: string }) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    await session.page.selectOption(params.selector, params.value);
-  }
-
-  async hover(sessionId: string, params: { selector: string }) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    await session.page.hover(params.selector);
-  }
-
-  async evaluate(sessionId: string, params: { script: string }) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    return await session.page.evaluate(params.script);
-  }
-
-  async getConsoleLogs(
-    sessionId: string,
-    params: {
-      type: string;
-      search: string;
-      limit: number;
-      clear: boolean;
-    }
-  ) {
-    const session = await this.getSession(sessionId);
-    if (!session.page) {
-      throw new Error("No page available");
-    }
-
-    // This would need to be implemented based on how you want to handle console logs
-    // You could store them in the session state or implement a separate logging system
-    return [];
+  /**
+   * Get screenshots of a session
+   */
+  getScreenshots(sessionId: string): Map<string, string> {
+    return (
+      this.sessionTools.get(sessionId)?.screenshotTool.getScreenshots() ??
+      new Map()
+    );
   }
 
   async close(sessionId: string) {
     await this.sessionManager.closeSession(sessionId);
+    this.sessionTools.delete(sessionId);
   }
 
   async closeAll() {
     await this.sessionManager.closeAllSessions();
+    this.sessionTools.clear();
   }
 }
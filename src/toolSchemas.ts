@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+/**
+ * Subset of JSON Schema used by the tool definitions in tools.ts
+ */
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  enum?: readonly string[];
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  items?: JsonSchema;
+  additionalProperties?: boolean | JsonSchema;
+}
+
+/**
+ * Converts a tool input JSON schema into the equivalent zod schema,
+ * so transports that validate with zod share the definitions in tools.ts
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  let result: z.ZodTypeAny;
+
+  switch (schema.type) {
+    case "string":
+      result =
+        schema.enum && schema.enum.length > 0
+          ? z.enum(schema.enum as [string, ...string[]])
+          : z.string();
+      break;
+    case "number":
+      result = z.number();
+      break;
+    case "integer":
+      result = z.number().int();
+      break;
+    case "boolean":
+      result = z.boolean();
+      break;
+    case "array":
+      result = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.any());
+      break;
+    case "object":
+      result = objectSchemaToZod(schema);
+      break;
+    default:
+      result = z.any();
+      break;
+  }
+
+  return schema.description ? result.describe(schema.description) : result;
+}
+
+function objectSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  // Free-form maps such as request headers
+  if (!schema.properties && typeof schema.additionalProperties === "object") {
+    return z.record(jsonSchemaToZod(schema.additionalProperties));
+  }
+
+  const required = new Set(schema.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const propertySchema = jsonSchemaToZod(property);
+    shape[key] = required.has(key) ? propertySchema : propertySchema.optional();
+  }
+
+  return z.object(shape);
+}
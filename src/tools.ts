@@ -1,5 +1,75 @@
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
 
+// Device and emulation parameters accepted wherever a browser context is created
+const EMULATION_PROPERTIES = {
+  device: { type: "string", description: "Name of a device to emulate, such as \"iPhone 13\" or \"Pixel 7\", setting its viewport, user agent, scale factor, mobile and touch support. Explicit parameters override it. See playwright_list_devices" },
+  isMobile: { type: "boolean", description: "Emulate a mobile browser, honouring the meta viewport tag (not supported in Firefox)" },
+  hasTouch: { type: "boolean", description: "Enable touch events" },
+  deviceScaleFactor: { type: "number", description: "Device pixel ratio (default: 1)" },
+  locale: { type: "string", description: "Locale, such as en-GB or de-DE, affecting navigator.language, the Accept-Language header and number and date formatting" },
+  timezoneId: { type: "string", description: "IANA time zone, such as Europe/Berlin" },
+  colorScheme: { type: "string", description: "Value of the prefers-color-scheme media feature", enum: ["light", "dark", "no-preference"] },
+  reducedMotion: { type: "string", description: "Value of the prefers-reduced-motion media feature", enum: ["reduce", "no-preference"] },
+  geolocation: {
+    type: "object",
+    description: "Position reported by the geolocation API. Grant the \"geolocation\" permission for pages to read it",
+    properties: {
+      latitude: { type: "number", description: "Latitude between -90 and 90" },
+      longitude: { type: "number", description: "Longitude between -180 and 180" },
+      accuracy: { type: "number", description: "Accuracy in meters (default: 0)" }
+    },
+    required: ["latitude", "longitude"]
+  },
+  permissions: { type: "array", items: { type: "string" }, description: "Permissions to grant to every page, such as geolocation, notifications or clipboard-read" },
+};
+
+// Strategies for finding elements by what the user sees; a locator uses exactly one of them
+const LOCATOR_STRATEGIES = {
+  role: { type: "string", description: "ARIA role, such as button, link, textbox, checkbox or heading" },
+  name: { type: "string", description: "Accessible name of the element, used with role" },
+  text: { type: "string", description: "Text content of the element" },
+  label: { type: "string", description: "Text of the label associated with a form control" },
+  placeholder: { type: "string", description: "Placeholder of an input" },
+  testId: { type: "string", description: "Value of the data-testid attribute" },
+  altText: { type: "string", description: "Alt text of an image" },
+  selector: { type: "string", description: "CSS selector" },
+  exact: { type: "boolean", description: "Match name, text, label, placeholder or altText exactly, case-sensitive, instead of by substring (default: false)" },
+};
+
+// Structured alternative to a CSS selector for tools acting on one element
+const LOCATOR_PROPERTY = {
+  type: "object",
+  description: "Locate the element by role, text, label, placeholder, test id or alt text instead of a CSS selector. If it matches several elements the tool lists them; narrow it down with name, exact, filter or nth",
+  properties: {
+    ...LOCATOR_STRATEGIES,
+    filter: {
+      type: "array",
+      description: "Filters applied in order to narrow the matches",
+      items: {
+        type: "object",
+        properties: {
+          hasText: { type: "string", description: "Keep elements containing this text somewhere inside" },
+          hasNotText: { type: "string", description: "Keep elements not containing this text" },
+          has: { type: "object", description: "Keep elements containing an element matching this locator", properties: LOCATOR_STRATEGIES },
+          hasNot: { type: "object", description: "Keep elements not containing an element matching this locator", properties: LOCATOR_STRATEGIES }
+        }
+      }
+    },
+    nth: { type: "number", description: "Zero-based index of the match to use" },
+    first: { type: "boolean", description: "Use the first match" },
+    last: { type: "boolean", description: "Use the last match" },
+  },
+};
+
+// Element reference from playwright_snapshot, accepted in place of a selector
+const REF_PROPERTY = { type: "string", description: "Reference of the element, such as e42, from the latest playwright_snapshot of the page, instead of a selector" };
+
+// Chunking parameters shared by the content extraction tools
+const CHUNK_PROPERTIES = {
+  offset: { type: "number", description: "Character offset to start reading at, from the previous response, to read the next chunk (default: 0)" },
+  maxLength: { type: "number", description: "Maximum number of characters to return (default: 20000)" },
+};
+
 export function createToolDefinitions() {
   return [
     {
@@ -14,11 +84,70 @@ export function createToolDefinitions() {
           height: { type: "number", description: "Viewport height in pixels (default: 720)" },
           timeout: { type: "number", description: "Navigation timeout in milliseconds" },
           waitUntil: { type: "string", description: "Navigation wait condition" },
-          headless: { type: "boolean", description: "Run browser in headless mode (default: false)" }
+          headless: { type: "boolean", description: "Run browser in headless mode (default: false)" },
+          ...EMULATION_PROPERTIES,
+          profile: { type: "string", description: "Saved storage state profile to start the browser with, restoring its cookies and localStorage. In a running session, a profile other than the one the active context started from recreates the context with it" },
+          cdpEndpoint: { type: "string", description: "Connect to a running Chromium-based browser over the Chrome DevTools Protocol at this endpoint (e.g. http://localhost:9222) instead of launching one" },
+          wsEndpoint: { type: "string", description: "Connect to a running Playwright browser server at this WebSocket endpoint instead of launching one" },
+          launchOptions: {
+            type: "object",
+            description: "Options for launching the browser, applied over the configured ones. The browser is relaunched when these differ from the ones it runs with. The executable, its arguments and paths can only be set in the server configuration",
+            properties: {
+              proxy: {
+                type: "object",
+                description: "Proxy to route browser traffic through",
+                properties: {
+                  server: { type: "string", description: "Proxy server, e.g. http://myproxy.com:3128 or socks5://myproxy.com:3128" },
+                  bypass: { type: "string", description: "Comma separated domains that skip the proxy, e.g. \".example.com, localhost\"" },
+                  username: { type: "string", description: "Username for proxy authentication" },
+                  password: { type: "string", description: "Password for proxy authentication" }
+                },
+                required: ["server"]
+              },
+              slowMo: { type: "number", description: "Slow down every browser operation by this many milliseconds" },
+              timeout: { type: "number", description: "Milliseconds to wait for the browser to start" }
+            }
+          }
         },
         required: ["url"],
       },
     },
+    {
+      name: "playwright_go_back",
+      description: "Go back to the previous page in the tab's history, returning the URL, title and HTTP status it landed on",
+      inputSchema: {
+        type: "object",
+        properties: {
+          timeout: { type: "number", description: "Navigation timeout in milliseconds (default: 30000)" },
+          waitUntil: { type: "string", enum: ["load", "domcontentloaded", "networkidle", "commit"], description: "Navigation wait condition (default: load)" },
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_go_forward",
+      description: "Go forward to the next page in the tab's history, returning the URL, title and HTTP status it landed on",
+      inputSchema: {
+        type: "object",
+        properties: {
+          timeout: { type: "number", description: "Navigation timeout in milliseconds (default: 30000)" },
+          waitUntil: { type: "string", enum: ["load", "domcontentloaded", "networkidle", "commit"], description: "Navigation wait condition (default: load)" },
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_reload",
+      description: "Reload the current page, returning its URL, title and HTTP status",
+      inputSchema: {
+        type: "object",
+        properties: {
+          timeout: { type: "number", description: "Navigation timeout in milliseconds (default: 30000)" },
+          waitUntil: { type: "string", enum: ["load", "domcontentloaded", "networkidle", "commit"], description: "Navigation wait condition (default: load)" },
+        },
+        required: [],
+      },
+    },
     {
       name: "playwright_screenshot",
       description: "Take a screenshot of the current page or a specific element",
@@ -27,16 +156,30 @@ export function createToolDefinitions() {
         properties: {
           name: { type: "string", description: "Name for the screenshot" },
           selector: { type: "string", description: "CSS selector for element to screenshot" },
+          locator: LOCATOR_PROPERTY,
+          ref: REF_PROPERTY,
           width: { type: "number", description: "Width in pixels (default: 800)" },
           height: { type: "number", description: "Height in pixels (default: 600)" },
           storeBase64: { type: "boolean", description: "Store screenshot in base64 format (default: true)" },
           fullPage: { type: "boolean", description: "Store screenshot of the entire page (default: false)" },
           savePng: { type: "boolean", description: "Save screenshot as PNG file (default: false)" },
-          downloadsDir: { type: "string", description: "Custom downloads directory path (default: user's Downloads folder)" },
+          downloadsDir: { type: "string", description: "Custom downloads directory path (default: the configured screenshot directory, or the user's Downloads folder)" },
         },
         required: ["name"],
       },
     },
+    {
+      name: "playwright_snapshot",
+      description: "Capture the accessibility tree of the page: roles, names, states and values of its elements, with a ref such as e42 for each that the interaction tools accept instead of a selector. Cheaper and more reliable than a screenshot for understanding a page",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of an element to limit the snapshot to (default: the whole page)" },
+          depth: { type: "number", description: "Maximum depth of the tree, to keep snapshots of large pages short" },
+        },
+        required: [],
+      },
+    },
     {
       name: "playwright_click",
       description: "Click an element on the page",
@@ -44,8 +187,74 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for the element to click" },
+          locator: LOCATOR_PROPERTY,
+          ref: REF_PROPERTY,
+          button: { type: "string", description: "Mouse button (default: left)", enum: ["left", "right", "middle"] },
+          clickCount: { type: "number", description: "Number of clicks, 2 for a double click (default: 1)" },
+          modifiers: { type: "array", items: { type: "string", enum: ["Alt", "Control", "ControlOrMeta", "Meta", "Shift"] }, description: "Modifier keys to hold during the click" },
+          position: {
+            type: "object",
+            description: "Point to click relative to the top left corner of the element (default: its center)",
+            properties: {
+              x: { type: "number", description: "Horizontal offset in pixels" },
+              y: { type: "number", description: "Vertical offset in pixels" }
+            },
+            required: ["x", "y"]
+          },
+          delay: { type: "number", description: "Milliseconds between mousedown and mouseup (default: 0)" },
+          force: { type: "boolean", description: "Skip the visibility, stability and hit target checks (default: false)" },
+          trial: { type: "boolean", description: "Only check that the element could be clicked, without clicking it (default: false)" },
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_click_at",
+      description: "Click at a point of the page, for canvas, map and other interfaces without element selectors",
+      inputSchema: {
+        type: "object",
+        properties: {
+          x: { type: "number", description: "Horizontal page coordinate in CSS pixels from the left of the viewport" },
+          y: { type: "number", description: "Vertical page coordinate in CSS pixels from the top of the viewport" },
+          button: { type: "string", description: "Mouse button (default: left)", enum: ["left", "right", "middle"] },
+          clickCount: { type: "number", description: "Number of clicks, 2 for a double click (default: 1)" },
+          modifiers: { type: "array", items: { type: "string", enum: ["Alt", "Control", "ControlOrMeta", "Meta", "Shift"] }, description: "Modifier keys to hold during the click" },
+          delay: { type: "number", description: "Milliseconds between mousedown and mouseup (default: 0)" }
+        },
+        required: ["x", "y"],
+      },
+    },
+    {
+      name: "playwright_mouse_wheel",
+      description: "Scroll with the mouse wheel, over an element or a point when given, otherwise wherever the mouse is",
+      inputSchema: {
+        type: "object",
+        properties: {
+          deltaX: { type: "number", description: "Horizontal scroll in pixels, positive to the right (default: 0)" },
+          deltaY: { type: "number", description: "Vertical scroll in pixels, positive downwards (default: 0)" },
+          selector: { type: "string", description: "CSS selector of the element to scroll over" },
+          x: { type: "number", description: "Horizontal coordinate of the point to scroll over" },
+          y: { type: "number", description: "Vertical coordinate of the point to scroll over" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_drag",
+      description: "Drag from an element or point and drop onto another element or point, for example to move a card on a kanban board",
+      inputSchema: {
+        type: "object",
+        properties: {
+          sourceSelector: { type: "string", description: "CSS selector of the element to drag" },
+          sourceX: { type: "number", description: "Horizontal coordinate to start dragging at, when no sourceSelector is given" },
+          sourceY: { type: "number", description: "Vertical coordinate to start dragging at, when no sourceSelector is given" },
+          targetSelector: { type: "string", description: "CSS selector of the element to drop onto" },
+          targetX: { type: "number", description: "Horizontal coordinate to drop at, when no targetSelector is given" },
+          targetY: { type: "number", description: "Vertical coordinate to drop at, when no targetSelector is given" },
+          steps: { type: "number", description: "Number of intermediate mouse moves, for interfaces that track the pointer (default: 10 between points, 1 between elements)" },
+          force: { type: "boolean", description: "Skip the actionability checks when dragging between elements (default: false)" }
         },
-        required: ["selector"],
+        required: [],
       },
     },
     {
@@ -67,21 +276,139 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for input field" },
+          locator: LOCATOR_PROPERTY,
+          ref: REF_PROPERTY,
           value: { type: "string", description: "Value to fill" },
         },
-        required: ["selector", "value"],
+        required: ["value"],
+      },
+    },
+    {
+      name: "playwright_press_key",
+      description: "Press a key or key combination, such as Enter, Tab, ArrowDown, Control+A or Meta+K",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Key to press, using Playwright key names such as Enter, Escape, ArrowLeft or a, combined with modifiers like Shift+Tab or ControlOrMeta+C" },
+          selector: { type: "string", description: "CSS selector of the element to focus and press the key on (default: the focused element)" },
+          ref: REF_PROPERTY,
+          iframeSelector: { type: "string", description: "CSS selector of the iframe that contains the element" },
+          delay: { type: "number", description: "Milliseconds between keydown and keyup (default: 0)" }
+        },
+        required: ["key"],
+      },
+    },
+    {
+      name: "playwright_type",
+      description: "Type text key by key, firing keyboard events for every character. Use it for fields that react to keystrokes, such as autocomplete or masked inputs; playwright_fill is faster otherwise",
+      inputSchema: {
+        type: "object",
+        properties: {
+          text: { type: "string", description: "Text to type" },
+          selector: { type: "string", description: "CSS selector of the element to focus and type into (default: the focused element)" },
+          ref: REF_PROPERTY,
+          iframeSelector: { type: "string", description: "CSS selector of the iframe that contains the element" },
+          delay: { type: "number", description: "Milliseconds between key presses (default: 0)" },
+          clear: { type: "boolean", description: "Clear the element before typing, requires selector (default: false)" }
+        },
+        required: ["text"],
+      },
+    },
+    {
+      name: "playwright_key_down",
+      description: "Hold a key down until playwright_key_up releases it, for example Shift while clicking",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Key to hold, such as Shift, Control, Alt or Meta" },
+          selector: { type: "string", description: "CSS selector of the element to focus first (default: the focused element)" },
+          ref: REF_PROPERTY,
+          iframeSelector: { type: "string", description: "CSS selector of the iframe that contains the element" }
+        },
+        required: ["key"],
+      },
+    },
+    {
+      name: "playwright_key_up",
+      description: "Release a key held down by playwright_key_down",
+      inputSchema: {
+        type: "object",
+        properties: {
+          key: { type: "string", description: "Key to release" },
+          selector: { type: "string", description: "CSS selector of the element to focus first (default: the focused element)" },
+          ref: REF_PROPERTY,
+          iframeSelector: { type: "string", description: "CSS selector of the iframe that contains the element" }
+        },
+        required: ["key"],
       },
     },
     {
       name: "playwright_select",
-      description: "Select an element on the page with Select tag",
+      description: "Select an element on the page with Select tag. Pass several options to a multiple select to select them all",
       inputSchema: {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for element to select" },
+          locator: LOCATOR_PROPERTY,
+          ref: REF_PROPERTY,
           value: { type: "string", description: "Value to select" },
+          values: { type: "array", items: { type: "string" }, description: "Values of the options to select" },
+          labels: { type: "array", items: { type: "string" }, description: "Visible labels of the options to select" },
+          indexes: { type: "array", items: { type: "number" }, description: "Zero-based indexes of the options to select" },
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_check",
+      description: "Check a checkbox or select a radio button, verifying that it ends up checked",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the checkbox or radio button" },
+          ref: REF_PROPERTY,
+          force: { type: "boolean", description: "Skip the actionability checks (default: false)" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_uncheck",
+      description: "Uncheck a checkbox, verifying that it ends up unchecked",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the checkbox" },
+          ref: REF_PROPERTY,
+          force: { type: "boolean", description: "Skip the actionability checks (default: false)" }
         },
-        required: ["selector", "value"],
+        required: [],
+      },
+    },
+    {
+      name: "playwright_upload_file",
+      description: "Set the files of a file input, from the server's upload directory or from base64 content",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the file input" },
+          ref: REF_PROPERTY,
+          files: { type: "array", items: { type: "string" }, description: "Paths of files relative to the configured upload directory" },
+          contents: {
+            type: "array",
+            description: "Files to upload given by their content, instead of files",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", description: "File name" },
+                mimeType: { type: "string", description: "MIME type (default: application/octet-stream)" },
+                base64: { type: "string", description: "Base64 encoded file content" }
+              },
+              required: ["name", "base64"]
+            }
+          }
+        },
+        required: [],
       },
     },
     {
@@ -91,8 +418,124 @@ export function createToolDefinitions() {
         type: "object",
         properties: {
           selector: { type: "string", description: "CSS selector for element to hover" },
+          locator: LOCATOR_PROPERTY,
+          ref: REF_PROPERTY,
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_get_visible_text",
+      description: "Get the visible text of the page or of the elements matching a selector, in chunks for large pages",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the elements to read (default: the whole page)" },
+          ...CHUNK_PROPERTIES,
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_get_visible_html",
+      description: "Get the HTML of the page or of the elements matching a selector, with scripts, styles, comments and event handlers removed, in chunks for large pages",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the elements to read (default: the whole page)" },
+          keepStyles: { type: "boolean", description: "Keep style elements, stylesheet links and style attributes (default: false)" },
+          ...CHUNK_PROPERTIES,
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_get_markdown",
+      description: "Get the main content of the page as markdown, leaving out navigation, headers and footers, or the elements matching a selector. Returned in chunks for large pages",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the elements to convert (default: the page's main content)" },
+          ...CHUNK_PROPERTIES,
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_interactive_elements",
+      description: "List the visible links, buttons and forms of the page with a locator for each that playwright_click, playwright_fill and the other interaction tools accept",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the part of the page to list (default: the whole page)" },
+          types: { type: "array", items: { type: "string", enum: ["links", "buttons", "forms"] }, description: "Kinds of elements to list (default: all)" },
+          ...CHUNK_PROPERTIES,
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_extract",
+      description: "Scrape repeated items, such as search results or product cards, into a JSON array using a schema of named fields, optionally following a next page control",
+      inputSchema: {
+        type: "object",
+        properties: {
+          itemSelector: { type: "string", description: "CSS selector matching each item (default: the whole page as a single item)" },
+          fields: {
+            type: "object",
+            description: "Fields to read from each item, by name",
+            additionalProperties: {
+              type: "object",
+              properties: {
+                selector: { type: "string", description: "CSS selector inside the item (default: the item itself)" },
+                mode: { type: "string", enum: ["text", "html", "attribute"], description: "Read the text, the inner HTML or an attribute (default: text)" },
+                attribute: { type: "string", description: "Attribute to read in attribute mode; href and src become absolute URLs" },
+                type: { type: "string", enum: ["string", "number", "integer", "boolean", "date"], description: "Convert the value, to null when it does not match (default: string)" },
+                multiple: { type: "boolean", description: "Return every match in the item as an array instead of the first (default: false)" }
+              }
+            }
+          },
+          nextSelector: { type: "string", description: "CSS selector of the next page link or button to click after each page" },
+          maxPages: { type: "number", description: "Maximum number of pages to scrape (default: 5 with nextSelector, otherwise 1)" },
+          maxItems: { type: "number", description: "Stop after this many items" },
+          pageTimeout: { type: "number", description: "Milliseconds to wait for the items to change after clicking next (default: 10000)" },
         },
-        required: ["selector"],
+        required: ["fields"],
+      },
+    },
+    {
+      name: "playwright_extract_table",
+      description: "Read an HTML table or ARIA grid into JSON rows keyed by column header, or CSV. Spanned cells are repeated in every row and column they cover. Large tables are returned a page of rows at a time and can be saved to a file whole",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the table or grid (default: the only table on the page)" },
+          format: { type: "string", enum: ["json", "csv"], description: "Output format (default: json)" },
+          headerRows: { type: "number", description: "Number of header rows, overriding detection from thead and th cells" },
+          offset: { type: "number", description: "Index of the first row to return, from the previous response (default: 0)" },
+          limit: { type: "number", description: "Maximum number of rows to return (default: 100)" },
+          saveAs: { type: "string", description: "File name to save the whole table to, such as orders.csv, in the configured screenshot directory" },
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_wait_for",
+      description: "Wait for one condition: an element reaching a state, the URL matching a pattern, a load state, text appearing, a JavaScript predicate becoming true, or a fixed time",
+      inputSchema: {
+        type: "object",
+        properties: {
+          selector: { type: "string", description: "CSS selector of the element to wait for" },
+          state: { type: "string", enum: ["attached", "detached", "visible", "hidden"], description: "State the selector should reach (default: visible)" },
+          url: { type: "string", description: "URL or glob pattern to wait for, such as **/dashboard" },
+          urlRegex: { type: "string", description: "Regular expression the URL should match, such as /orders/\\d+$" },
+          loadState: { type: "string", enum: ["load", "domcontentloaded", "networkidle"], description: "Load state to wait for" },
+          text: { type: "string", description: "Text to wait for until it is visible on the page" },
+          function: { type: "string", description: "JavaScript expression or function to wait for until it returns a truthy value, such as document.querySelectorAll('.row').length > 10" },
+          time: { type: "number", description: "Milliseconds to wait, when there is nothing better to wait for" },
+          timeout: { type: "number", description: "Maximum milliseconds to wait for the condition (default: 30000)" },
+        },
+        required: [],
       },
     },
     {
@@ -142,6 +585,218 @@ export function createToolDefinitions() {
         required: [],
       },
     },
+    {
+      name: "playwright_list_tabs",
+      description: "List the open tabs of the active browser context with their index, title and URL",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+    },
+    {
+      name: "playwright_new_tab",
+      description: "Open a new tab and make it the active tab",
+      inputSchema: {
+        type: "object",
+        properties: {
+          url: { type: "string", description: "URL to open in the new tab" },
+          timeout: { type: "number", description: "Navigation timeout in milliseconds" },
+          waitUntil: { type: "string", description: "Navigation wait condition" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_switch_tab",
+      description: "Make the tab at the given index the active tab that other tools act on",
+      inputSchema: {
+        type: "object",
+        properties: {
+          index: { type: "number", description: "Index of the tab, as listed by playwright_list_tabs" }
+        },
+        required: ["index"],
+      },
+    },
+    {
+      name: "playwright_close_tab",
+      description: "Close a tab. Closing the active tab makes the most recently opened remaining tab active",
+      inputSchema: {
+        type: "object",
+        properties: {
+          index: { type: "number", description: "Index of the tab to close (default: the active tab)" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_wait_for_popup",
+      description: "Wait for a popup or new window opened by the previous action, such as a target=_blank link, and switch to it",
+      inputSchema: {
+        type: "object",
+        properties: {
+          timeout: { type: "number", description: "Maximum time to wait in milliseconds (default: 30000)" },
+          switchTo: { type: "boolean", description: "Make the popup the active tab (default: true)" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_create_context",
+      description: "Create an isolated browser context with its own cookies and storage, for example to act as a second user, and switch to it",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Unique name of the context" },
+          width: { type: "number", description: "Viewport width in pixels (default: 1280)" },
+          height: { type: "number", description: "Viewport height in pixels (default: 720)" },
+          userAgent: { type: "string", description: "User agent of the context" },
+          ...EMULATION_PROPERTIES,
+          profile: { type: "string", description: "Saved storage state profile to start the context with, restoring its cookies and localStorage" }
+        },
+        required: ["name"],
+      },
+    },
+    {
+      name: "playwright_list_devices",
+      description: "List the device names that can be emulated with the device parameter of playwright_navigate and playwright_create_context",
+      inputSchema: {
+        type: "object",
+        properties: {
+          filter: { type: "string", description: "Only list devices whose name contains this text, case insensitive (e.g. \"iphone\")" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_list_contexts",
+      description: "List the browser contexts of the session with their tab count and settings",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+    },
+    {
+      name: "playwright_switch_context",
+      description: "Make a browser context active, so other tools act on its most recent tab",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Name of the context" }
+        },
+        required: ["name"],
+      },
+    },
+    {
+      name: "playwright_dispose_context",
+      description: "Close a browser context along with its tabs, cookies and storage",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Name of the context" }
+        },
+        required: ["name"],
+      },
+    },
+    {
+      name: "playwright_save_profile",
+      description: "Save the cookies and localStorage of the active browser context as a named profile, so later sessions or contexts can start logged in",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Profile name, made of letters, digits, '.', '_' and '-'. An existing profile of the same name is replaced" }
+        },
+        required: ["name"],
+      },
+    },
+    {
+      name: "playwright_set_viewport",
+      description: "Resize the viewport of the active page without reloading it",
+      inputSchema: {
+        type: "object",
+        properties: {
+          width: { type: "number", description: "Viewport width in pixels" },
+          height: { type: "number", description: "Viewport height in pixels" }
+        },
+        required: ["width", "height"],
+      },
+    },
+    {
+      name: "playwright_set_geolocation",
+      description: "Set or clear the position the geolocation API reports in the active context. Pages also need the geolocation permission to read it",
+      inputSchema: {
+        type: "object",
+        properties: {
+          latitude: { type: "number", description: "Latitude between -90 and 90" },
+          longitude: { type: "number", description: "Longitude between -180 and 180" },
+          accuracy: { type: "number", description: "Accuracy in meters (default: 0)" },
+          clear: { type: "boolean", description: "Clear the emulated position instead of setting one" }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_grant_permissions",
+      description: "Grant permissions to the pages of the active context",
+      inputSchema: {
+        type: "object",
+        properties: {
+          permissions: { type: "array", items: { type: "string" }, description: "Permissions to grant, such as geolocation, notifications, camera, microphone, clipboard-read or clipboard-write" },
+          origin: { type: "string", description: "Only grant them to this origin, e.g. https://example.com (default: all origins)" }
+        },
+        required: ["permissions"],
+      },
+    },
+    {
+      name: "playwright_revoke_permissions",
+      description: "Revoke every permission granted to the active context, including those given when it was created",
+      inputSchema: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_offline",
+      description: "Take the active context offline, failing its network requests, or bring it back online",
+      inputSchema: {
+        type: "object",
+        properties: {
+          offline: { type: "boolean", description: "true to go offline, false to go back online" }
+        },
+        required: ["offline"],
+      },
+    },
+    {
+      name: "playwright_emulate_media",
+      description: "Emulate a CSS media type and media features on the active page, for example to check print styles or dark mode",
+      inputSchema: {
+        type: "object",
+        properties: {
+          media: { type: "string", description: "CSS media type", enum: ["screen", "print"] },
+          colorScheme: { type: "string", description: "Value of the prefers-color-scheme media feature", enum: ["light", "dark", "no-preference"] },
+          reducedMotion: { type: "string", description: "Value of the prefers-reduced-motion media feature", enum: ["reduce", "no-preference"] },
+          forcedColors: { type: "string", description: "Value of the forced-colors media feature", enum: ["active", "none"] }
+        },
+        required: [],
+      },
+    },
+    {
+      name: "playwright_set_extra_headers",
+      description: "Send extra HTTP headers with every request of the active context, replacing headers set before. Pass an empty object to clear them",
+      inputSchema: {
+        type: "object",
+        properties: {
+          headers: {
+            type: "object",
+            description: "Header names mapped to values",
+            additionalProperties: { type: "string" }
+          }
+        },
+        required: ["headers"],
+      },
+    },
     {
       name: "playwright_get",
       description: "Perform an HTTP GET request",
@@ -232,11 +887,13 @@ export function createToolDefinitions() {
     },
     {
       name: "playwright_custom_user_agent",
-      description: "Set a custom User Agent for the browser",
+      description: "Set a custom User Agent for the browser. The active context is recreated with it, and the effective User Agent and client hints are reported",
       inputSchema: {
         type: "object",
         properties: {
-          userAgent: { type: "string", description: "Custom User Agent for the Playwright browser instance" }
+          userAgent: { type: "string", description: "Custom User Agent for the Playwright browser instance" },
+          preserveStorage: { type: "boolean", description: "Carry cookies and localStorage over to the recreated context (default: true)" },
+          preserveUrl: { type: "boolean", description: "Navigate the recreated context back to the current URL (default: true)" }
         },
         required: ["userAgent"],
       },
@@ -247,17 +904,55 @@ export function createToolDefinitions() {
 // Browser-requiring tools for conditional browser launch
 export const BROWSER_TOOLS = [
   "playwright_navigate",
+  "playwright_go_back",
+  "playwright_go_forward",
+  "playwright_reload",
   "playwright_screenshot",
+  "playwright_snapshot",
   "playwright_click",
+  "playwright_click_at",
+  "playwright_mouse_wheel",
+  "playwright_drag",
   "playwright_iframe_click",
   "playwright_fill",
+  "playwright_press_key",
+  "playwright_type",
+  "playwright_key_down",
+  "playwright_key_up",
   "playwright_select",
+  "playwright_check",
+  "playwright_uncheck",
+  "playwright_upload_file",
   "playwright_hover",
   "playwright_evaluate",
+  "playwright_get_visible_text",
+  "playwright_get_visible_html",
+  "playwright_get_markdown",
+  "playwright_list_interactive_elements",
+  "playwright_extract",
+  "playwright_extract_table",
+  "playwright_wait_for",
   "playwright_close",
   "playwright_expect_response",
   "playwright_assert_response",
   "playwright_custom_user_agent",
+  "playwright_list_tabs",
+  "playwright_new_tab",
+  "playwright_switch_tab",
+  "playwright_close_tab",
+  "playwright_wait_for_popup",
+  "playwright_create_context",
+  "playwright_list_contexts",
+  "playwright_switch_context",
+  "playwright_dispose_context",
+  "playwright_save_profile",
+  "playwright_set_viewport",
+  "playwright_set_geolocation",
+  "playwright_grant_permissions",
+  "playwright_revoke_permissions",
+  "playwright_set_offline",
+  "playwright_emulate_media",
+  "playwright_set_extra_headers",
 ];
 
 // API Request tools for conditional launch
@@ -267,4 +962,11 @@ export const API_TOOLS = [
   "playwright_put",
   "playwright_delete",
   "playwright_patch"
+];
+
+// Tools that load or request args.url, which must match the allowed URL patterns
+export const URL_TOOLS = [
+  "playwright_navigate",
+  "playwright_new_tab",
+  ...API_TOOLS
 ];
\ No newline at end of file
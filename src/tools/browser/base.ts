@@ -58,8 +58,7 @@ export abstract class BrowserToolBase implements ToolHandler {
       // Verify browser is connected before proceeding
       if (context.browser && !context.browser.isConnected()) {
         // If browser exists but is disconnected, reset state
-        const { resetBrowserState } = await import('../../toolHandler.js');
-        resetBrowserState();
+        context.resetBrowserState?.();
         return createErrorResponse("Browser is disconnected. Please retry the operation.");
       }
 
@@ -80,9 +79,13 @@ export abstract class BrowserToolBase implements ToolHandler {
         errorMessage.includes("Protocol error") ||
         errorMessage.includes("Connection closed")
       ) {
+        // Only a disconnected browser takes the session down; a closed tab or
+        // context is dropped by the session, which falls back to another tab
+        if (context.browser?.isConnected()) {
+          return createErrorResponse(`Operation failed: ${errorMessage}. The tab or context was closed; retry on the current tab or pick one with playwright_list_tabs.`);
+        }
         // Reset browser state on connection issues
-        const { resetBrowserState } = await import('../../toolHandler.js');
-        resetBrowserState();
+        context.resetBrowserState?.();
         return createErrorResponse(`Browser connection error: ${errorMessage}. Connection has been reset - please retry the operation.`);
       }
       
@@ -0,0 +1,428 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { buildLocator, type LocatorSpec } from './locators.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+// Characters returned per call unless the caller asks for another chunk size
+const DEFAULT_MAX_LENGTH = 20000;
+
+/**
+ * Cuts one chunk out of extracted content, ending it at a line break where
+ * possible, and tells the caller how to fetch the next one
+ */
+export function paginate(content: string, offset: number, maxLength: number): string[] {
+  if (content.length === 0) {
+    return ['No content found'];
+  }
+  if (offset >= content.length) {
+    throw new Error(`offset ${offset} is past the end of the content (${content.length} characters)`);
+  }
+
+  let end = Math.min(offset + maxLength, content.length);
+  if (end < content.length) {
+    // Prefer not to split a line, unless that would make the chunk much shorter
+    const lineBreak = content.lastIndexOf('\n', end - 1);
+    if (lineBreak > offset + maxLength / 2) {
+      end = lineBreak + 1;
+    }
+  }
+
+  const chunk = content.slice(offset, end);
+  if (offset === 0 && end === content.length) {
+    return [chunk];
+  }
+  return [
+    chunk,
+    end < content.length
+      ? `[Characters ${offset}-${end} of ${content.length}. Call again with offset ${end} for the next chunk]`
+      : `[Characters ${offset}-${end} of ${content.length}. End of content]`
+  ];
+}
+
+/**
+ * Base class for tools that read content from the page and return it in
+ * chunks of at most maxLength characters, starting at offset
+ */
+abstract class ContentToolBase extends BrowserToolBase {
+  /**
+   * Reads the whole content from the page
+   */
+  protected abstract extract(page: Page, args: any): Promise<string>;
+
+  /**
+   * Execute the content tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const offset = args.offset ?? 0;
+    const maxLength = args.maxLength ?? DEFAULT_MAX_LENGTH;
+    if (!Number.isInteger(offset) || offset < 0) {
+      return createErrorResponse("offset must be a non-negative integer");
+    }
+    if (!Number.isInteger(maxLength) || maxLength <= 0) {
+      return createErrorResponse("maxLength must be a positive integer");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const content = await this.extract(page, args);
+      return createSuccessResponse(paginate(content, offset, maxLength));
+    });
+  }
+}
+
+/**
+ * Runs an extractor in the browser over the elements matching the selector,
+ * or the body when there is none
+ */
+async function evaluateRoots<T>(
+  page: Page,
+  selector: string | undefined,
+  extractor: (elements: Element[], arg: any) => T[],
+  arg?: object
+): Promise<T[]> {
+  const results = await page.locator(selector || 'body').evaluateAll(extractor, arg);
+  if (results.length === 0) {
+    throw new Error(`No element matches selector: ${selector}`);
+  }
+  return results;
+}
+
+/**
+ * Text a user sees in each element. Runs in the browser.
+ */
+function visibleText(elements: Element[]): string[] {
+  return elements.map((element) => (element as HTMLElement).innerText ?? element.textContent ?? '');
+}
+
+/**
+ * Markup of each element without scripts, styles, comments and event
+ * handler attributes. Runs in the browser.
+ */
+function cleanHtml(elements: Element[], options: { keepStyles: boolean }): string[] {
+  const removed = ['script', 'noscript', 'template', ...(options.keepStyles ? [] : ['style', 'link[rel="stylesheet"]'])];
+
+  return elements.map((element) => {
+    const clone = element.cloneNode(true) as Element;
+    clone.querySelectorAll(removed.join(',')).forEach((node) => node.remove());
+
+    const walker = document.createTreeWalker(clone, NodeFilter.SHOW_COMMENT);
+    const comments: Node[] = [];
+    while (walker.nextNode()) {
+      comments.push(walker.currentNode);
+    }
+    comments.forEach((comment) => comment.parentNode?.removeChild(comment));
+
+    for (const node of [clone, ...Array.from(clone.querySelectorAll('*'))]) {
+      for (const attribute of Array.from(node.attributes)) {
+        if (attribute.name.startsWith('on') || (!options.keepStyles && attribute.name === 'style')) {
+          node.removeAttribute(attribute.name);
+        }
+      }
+    }
+    return clone.outerHTML.replace(/>\s+</g, '> <').replace(/[ \t]+/g, ' ');
+  });
+}
+
+/**
+ * Markdown rendering of the visible content of each element. Without an
+ * explicit selector, the page's main content is used and navigation, headers
+ * and footers are left out. Runs in the browser.
+ */
+function toMarkdown(elements: Element[], options: { mainContent: boolean }): string[] {
+  const skipped = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'BUTTON', 'SELECT', 'INPUT', 'TEXTAREA']);
+  const chrome = new Set(['NAV', 'HEADER', 'FOOTER', 'ASIDE']);
+
+  const isHidden = (element: Element) => {
+    const style = getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden' || element.getAttribute('aria-hidden') === 'true';
+  };
+
+  const inline = (text: string) => text.replace(/\s+/g, ' ');
+
+  const convert = (node: Node, depth: number): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return inline(node.textContent ?? '');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (skipped.has(tag) || isHidden(element) || (options.mainContent && chrome.has(tag))) {
+      return '';
+    }
+    const children = () => Array.from(element.childNodes).map((child) => convert(child, depth)).join('');
+
+    switch (tag) {
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+        return `\n\n${'#'.repeat(Number(tag[1]))} ${children().trim()}\n\n`;
+      case 'P': case 'DIV': case 'SECTION': case 'ARTICLE': case 'MAIN': case 'FORM': case 'FIGURE':
+        return `\n\n${children()}\n\n`;
+      case 'BR':
+        return '\n';
+      case 'HR':
+        return '\n\n---\n\n';
+      case 'STRONG': case 'B': {
+        const text = children().trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'EM': case 'I': {
+        const text = children().trim();
+        return text ? `*${text}*` : '';
+      }
+      case 'CODE':
+        return `\`${element.textContent}\``;
+      case 'PRE':
+        return `\n\n\`\`\`\n${element.textContent?.replace(/\n$/, '')}\n\`\`\`\n\n`;
+      case 'A': {
+        const text = children().trim();
+        const href = (element as HTMLAnchorElement).href;
+        return href && text ? `[${text}](${href})` : text;
+      }
+      case 'IMG': {
+        const image = element as HTMLImageElement;
+        return image.alt ? `![${inline(image.alt)}](${image.src})` : '';
+      }
+      case 'BLOCKQUOTE':
+        return `\n\n${children().trim().split('\n').map((line) => `> ${line}`).join('\n')}\n\n`;
+      case 'UL': case 'OL': {
+        const items = Array.from(element.children).filter((child) => child.tagName === 'LI' && !isHidden(child));
+        const lines = items.map((item, index) => {
+          const marker = tag === 'OL' ? `${index + 1}.` : '-';
+          const content = Array.from(item.childNodes).map((child) => convert(child, depth + 1)).join('')
+            .replace(/\n{2,}/g, '\n').trim();
+          return `${'  '.repeat(depth)}${marker} ${content}`;
+        });
+        return `\n${depth === 0 ? '\n' : ''}${lines.join('\n')}\n${depth === 0 ? '\n' : ''}`;
+      }
+      case 'TABLE': {
+        const rows = Array.from((element as HTMLTableElement).rows).map((row) =>
+          Array.from(row.cells).map((cell) => inline(cell.innerText ?? '').trim().replace(/\|/g, '\\|'))
+        );
+        if (rows.length === 0) {
+          return '';
+        }
+        const width = Math.max(...rows.map((row) => row.length));
+        const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+        return `\n\n${[line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')}\n\n`;
+      }
+      default:
+        return children();
+    }
+  };
+
+  return elements.map((element) => {
+    const root = options.mainContent
+      ? element.querySelector('main, [role="main"], article') ?? element
+      : element;
+    return convert(root, 0)
+      .split('\n')
+      .map((line) => line.trimEnd().replace(/^ (?=\S)/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  });
+}
+
+/**
+ * A link or button. Role locators carry the element's position in document
+ * order, so its index among the elements Playwright matches can be found,
+ * and a CSS selector to fall back on.
+ */
+interface Control {
+  text: string;
+  locator: LocatorSpec;
+  position?: number;
+  fallback?: string;
+}
+
+interface InteractiveElements {
+  links: (Control & { href: string })[];
+  buttons: Control[];
+  forms: {
+    description: string;
+    locator: LocatorSpec;
+    fields: { description: string; locator: LocatorSpec }[];
+  }[];
+}
+
+/**
+ * Visible links, buttons and forms of the elements, each with a locator the
+ * interaction tools accept. Runs in the browser.
+ */
+function interactiveElements(elements: Element[]): InteractiveElements[] {
+  const isVisible = (element: Element) =>
+    element.getClientRects().length > 0 && getComputedStyle(element).visibility !== 'hidden';
+  const clean = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+  const accessibleName = (element: Element): string => {
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return clean(labelledBy.split(/\s+/).map((id) => document.getElementById(id)?.textContent).join(' '));
+    }
+    return clean(element.getAttribute('aria-label'))
+      || clean((element as HTMLElement).innerText)
+      || clean(element.querySelector('img[alt]')?.getAttribute('alt'))
+      || clean((element as HTMLInputElement).value)
+      || clean(element.getAttribute('title'));
+  };
+
+  const selectorFor = (element: Element): string => {
+    const tag = element.tagName.toLowerCase();
+    const name = element.getAttribute('name');
+    const selector = element.id
+      ? `${tag}#${CSS.escape(element.id)}`
+      : name ? `${tag}[name="${CSS.escape(name)}"]` : tag;
+    // Repeated names, such as those of a radio group, and duplicate ids are told apart by index
+    const matches = Array.from(document.querySelectorAll(selector));
+    return matches.length > 1 ? `${selector} >> nth=${matches.indexOf(element)}` : selector;
+  };
+
+  const positions = new Map(Array.from(document.querySelectorAll('*')).map((element, i) => [element, i]));
+  const control = (role: string, element: Element): Control => {
+    const text = accessibleName(element);
+    if (!text) {
+      return { text, locator: { selector: selectorFor(element) } };
+    }
+    return {
+      text,
+      locator: { role, name: text, exact: true },
+      position: positions.get(element),
+      fallback: selectorFor(element)
+    };
+  };
+
+  const fieldLocator = (field: Element): { description: string; locator: LocatorSpec } => {
+    const input = field as HTMLInputElement;
+    const label = clean(Array.from(input.labels ?? []).map((l) => l.innerText).join(' ')) || clean(field.getAttribute('aria-label'));
+    const type = field.tagName === 'INPUT' ? input.type : field.tagName.toLowerCase();
+    const traits = [type, input.required && 'required', input.disabled && 'disabled'].filter(Boolean).join(', ');
+    const name = label || clean(input.placeholder) || input.name || '(unnamed)';
+    return {
+      description: `"${name}" (${traits})`,
+      locator: label
+        ? { label, exact: true }
+        : input.placeholder ? { placeholder: input.placeholder, exact: true } : { selector: selectorFor(field) }
+    };
+  };
+
+  return elements.map((root) => {
+    const links = Array.from(root.querySelectorAll('a[href]')).filter(isVisible).map((link) => ({
+      ...control('link', link),
+      href: (link as HTMLAnchorElement).href
+    }));
+    const buttons = Array.from(root.querySelectorAll(
+      'button, [role="button"], input[type="submit"], input[type="button"], input[type="reset"]'
+    )).filter(isVisible).map((button) => control('button', button));
+    const forms = Array.from(root.querySelectorAll('form')).filter(isVisible).map((form) => ({
+      description: [
+        clean(form.getAttribute('aria-label')) || form.getAttribute('name') || form.id || '(unnamed)',
+        `${(form.getAttribute('method') || 'get').toUpperCase()} ${form.action}`
+      ].join(' '),
+      locator: { selector: selectorFor(form) },
+      fields: Array.from(form.querySelectorAll('input, select, textarea'))
+        .filter((field) => isVisible(field) && !['submit', 'button', 'reset', 'hidden'].includes((field as HTMLInputElement).type))
+        .map(fieldLocator)
+    }));
+    return { links, buttons, forms };
+  });
+}
+
+/**
+ * Positions of elements in document order, matching those the interactive
+ * elements extractor reports. Runs in the browser.
+ */
+function documentPositions(elements: Element[]): number[] {
+  const all = Array.from(document.querySelectorAll('*'));
+  return elements.map((element) => all.indexOf(element));
+}
+
+/**
+ * Turns the role locators of controls into ones that single out their
+ * element on the whole page. Playwright decides which elements a role and
+ * name match, so repeated names get the index of the element among those
+ * matches, and a control Playwright does not match falls back to its selector.
+ */
+async function pinRoleLocators(page: Page, controls: Control[]): Promise<void> {
+  const groups = new Map<string, Control[]>();
+  for (const item of controls.filter((item) => item.locator.role !== undefined)) {
+    const key = `${item.locator.role}\u0000${item.locator.name}`;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  await Promise.all([...groups.values()].map(async (group) => {
+    const { role, name } = group[0].locator;
+    const matches = await buildLocator(page, { role, name, exact: true }).evaluateAll(documentPositions);
+    for (const item of group) {
+      const nth = matches.indexOf(item.position);
+      item.locator = nth === -1
+        ? { selector: item.fallback }
+        : { role, name, exact: true, ...(matches.length > 1 && { nth }) };
+    }
+  }));
+}
+
+/**
+ * Tool for reading the visible text of the page or of the elements matching a selector
+ */
+export class GetVisibleTextTool extends ContentToolBase {
+  protected async extract(page: Page, args: any): Promise<string> {
+    const texts = await evaluateRoots(page, args.selector, visibleText);
+    return texts.join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+}
+
+/**
+ * Tool for reading the HTML of the page or of the elements matching a
+ * selector, with scripts, styles and comments stripped
+ */
+export class GetVisibleHtmlTool extends ContentToolBase {
+  protected async extract(page: Page, args: any): Promise<string> {
+    const fragments = await evaluateRoots(page, args.selector, cleanHtml, { keepStyles: !!args.keepStyles });
+    return fragments.join('\n');
+  }
+}
+
+/**
+ * Tool for reading the main content of the page, or of the elements matching
+ * a selector, as markdown
+ */
+export class GetMarkdownTool extends ContentToolBase {
+  protected async extract(page: Page, args: any): Promise<string> {
+    const documents = await evaluateRoots(page, args.selector, toMarkdown, { mainContent: !args.selector });
+    return documents.join('\n\n---\n\n');
+  }
+}
+
+/**
+ * Tool for listing the links, buttons and forms of the page with locators
+ * for the interaction tools
+ */
+export class ListInteractiveElementsTool extends ContentToolBase {
+  protected async extract(page: Page, args: any): Promise<string> {
+    const types: string[] = args.types?.length ? args.types : ['links', 'buttons', 'forms'];
+    const found = await evaluateRoots(page, args.selector, interactiveElements);
+    const links = found.flatMap((result) => result.links);
+    const buttons = found.flatMap((result) => result.buttons);
+    await pinRoleLocators(page, [...links, ...buttons]);
+    const forms = found.flatMap((result) => result.forms);
+    const locator = (value: object) => JSON.stringify(value);
+
+    const lines: string[] = [];
+    if (types.includes('links')) {
+      lines.push(`Links (${links.length}):`);
+      lines.push(...links.map((link) => `  "${link.text}" -> ${link.href}  locator: ${locator(link.locator)}`));
+    }
+    if (types.includes('buttons')) {
+      lines.push(`Buttons (${buttons.length}):`);
+      lines.push(...buttons.map((button) => `  "${button.text}"  locator: ${locator(button.locator)}`));
+    }
+    if (types.includes('forms')) {
+      lines.push(`Forms (${forms.length}):`);
+      for (const form of forms) {
+        lines.push(`  ${form.description}  locator: ${locator(form.locator)}`);
+        lines.push(...form.fields.map((field) => `    ${field.description}  locator: ${locator(field.locator)}`));
+      }
+    }
+    return lines.join('\n');
+  }
+}
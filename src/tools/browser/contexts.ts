@@ -0,0 +1,169 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, ContextManager, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import type { ContextSettings } from '../../sessionManager.js';
+import type { ProfileStore } from '../../profiles.js';
+import { emulationSettings, unknownDeviceError } from './devices.js';
+
+/**
+ * Describes the settings a context was created with, leaving out defaults
+ */
+function describeSettings(settings: ContextSettings): string {
+  const parts: string[] = [];
+  if (settings.viewport?.width || settings.viewport?.height) {
+    parts.push(`viewport ${settings.viewport.width ?? 'default'}x${settings.viewport.height ?? 'default'}`);
+  }
+  if (settings.userAgent) {
+    parts.push(`user agent "${settings.userAgent}"`);
+  }
+  if (settings.device) {
+    parts.push(`device "${settings.device}"`);
+  }
+  if (settings.deviceScaleFactor) {
+    parts.push(`scale ${settings.deviceScaleFactor}`);
+  }
+  if (settings.isMobile !== undefined) {
+    parts.push(settings.isMobile ? 'mobile' : 'desktop');
+  }
+  if (settings.hasTouch !== undefined) {
+    parts.push(settings.hasTouch ? 'touch' : 'no touch');
+  }
+  if (settings.locale) {
+    parts.push(`locale ${settings.locale}`);
+  }
+  if (settings.timezoneId) {
+    parts.push(`timezone ${settings.timezoneId}`);
+  }
+  if (settings.colorScheme) {
+    parts.push(`color scheme ${settings.colorScheme}`);
+  }
+  if (settings.reducedMotion) {
+    parts.push(`reduced motion ${settings.reducedMotion}`);
+  }
+  if (settings.geolocation) {
+    parts.push(`geolocation ${settings.geolocation.latitude},${settings.geolocation.longitude}`);
+  }
+  if (settings.permissions?.length) {
+    parts.push(`permissions ${settings.permissions.join(', ')}`);
+  }
+  if (settings.storageState) {
+    parts.push(`storage from ${settings.storageState}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'default settings';
+}
+
+/**
+ * Base class for tools that manage the named contexts of a session
+ */
+abstract class ContextToolBase extends BrowserToolBase {
+  /**
+   * Runs a context operation, reporting a missing context manager or a failed operation as an error
+   */
+  protected async withContexts(
+    context: ToolContext,
+    operation: (contexts: ContextManager) => Promise<ToolResponse>
+  ): Promise<ToolResponse> {
+    if (!context.contexts) {
+      return createErrorResponse("Context management is not available");
+    }
+
+    return this.safeExecute(context, () => operation(context.contexts));
+  }
+}
+
+/**
+ * Tool for creating an isolated browser context with its own cookies and storage
+ */
+export class CreateContextTool extends ContextToolBase {
+  private profiles?: ProfileStore;
+
+  constructor(server: any, profiles?: ProfileStore) {
+    super(server);
+    this.profiles = profiles;
+  }
+
+  /**
+   * Execute the create context tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.name) {
+      return createErrorResponse("Missing required parameter: name must be provided");
+    }
+    if (args.profile && !this.profiles) {
+      return createErrorResponse("Storage state profiles are not configured");
+    }
+    const deviceError = unknownDeviceError(args.device);
+    if (deviceError) {
+      return createErrorResponse(deviceError);
+    }
+
+    return this.withContexts(context, async (contexts) => {
+      const settings: ContextSettings = {
+        ...((args.width || args.height) && { viewport: { width: args.width, height: args.height } }),
+        ...(args.userAgent && { userAgent: args.userAgent }),
+        ...emulationSettings(args),
+        ...(args.profile && { storageState: await this.profiles.resolve(args.profile) }),
+      };
+      const named = await contexts.create(args.name, settings);
+
+      return createSuccessResponse([
+        `Created context "${named.name}" with ${describeSettings(named.settings)}`,
+        `Switched to context "${named.name}"`
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for listing the named contexts of the session
+ */
+export class ListContextsTool extends ContextToolBase {
+  /**
+   * Execute the list contexts tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withContexts(context, async (contexts) => {
+      const { contexts: named, active } = contexts.list();
+      const lines = named.map(({ name, settings, tabCount }) =>
+        `${name}: ${tabCount} tab${tabCount === 1 ? '' : 's'}, ${describeSettings(settings)}${name === active ? ' (active)' : ''}`
+      );
+      return createSuccessResponse([`Contexts (${named.length}):`, ...lines]);
+    });
+  }
+}
+
+/**
+ * Tool for switching the active context
+ */
+export class SwitchContextTool extends ContextToolBase {
+  /**
+   * Execute the switch context tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withContexts(context, async (contexts) => {
+      const named = await contexts.switch(args.name);
+      return createSuccessResponse(`Switched to context "${named.name}"`);
+    });
+  }
+}
+
+/**
+ * Tool for closing a context along with its tabs, cookies and storage
+ */
+export class DisposeContextTool extends ContextToolBase {
+  /**
+   * Execute the dispose context tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withContexts(context, async (contexts) => {
+      await contexts.dispose(args.name);
+
+      const { active } = contexts.list();
+      return createSuccessResponse([
+        `Disposed context "${args.name}"`,
+        active
+          ? `Active context: "${active}"`
+          : "No contexts left; the next browser action opens a fresh default context"
+      ]);
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { devices } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import type { ContextSettings } from '../../sessionManager.js';
+
+// Tool parameters that map one to one onto context settings
+const EMULATION_PARAMETERS = [
+  'device',
+  'isMobile',
+  'hasTouch',
+  'deviceScaleFactor',
+  'locale',
+  'timezoneId',
+  'colorScheme',
+  'reducedMotion',
+  'geolocation',
+  'permissions',
+] as const;
+
+/**
+ * Collects the device and emulation parameters given to a tool
+ */
+export function emulationSettings(args: any): ContextSettings {
+  return Object.fromEntries(
+    EMULATION_PARAMETERS
+      .filter((parameter) => args?.[parameter] !== undefined)
+      .map((parameter) => [parameter, args[parameter]])
+  );
+}
+
+/**
+ * Error message for a device name Playwright has no descriptor for, or undefined if it is known
+ */
+export function unknownDeviceError(name?: string): string | undefined {
+  if (!name || devices[name]) {
+    return undefined;
+  }
+  return `Unknown device: ${name}. Use playwright_list_devices to see the available devices`;
+}
+
+/**
+ * Tool for listing the device descriptors that can be passed as `device`
+ */
+export class ListDevicesTool extends BrowserToolBase {
+  /**
+   * Execute the list devices tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const filter = args.filter?.toLowerCase();
+    const names = Object.keys(devices).filter((name) => !filter || name.toLowerCase().includes(filter));
+    if (names.length === 0) {
+      return createErrorResponse(`No devices match "${args.filter}"`);
+    }
+
+    const lines = names.map((name) => {
+      const { viewport, deviceScaleFactor, isMobile, hasTouch, defaultBrowserType } = devices[name];
+      const traits = [isMobile && 'mobile', hasTouch && 'touch'].filter(Boolean).join(', ');
+      return `${name}: ${viewport.width}x${viewport.height} @${deviceScaleFactor}x${traits ? `, ${traits}` : ''}, ${defaultBrowserType}`;
+    });
+    return createSuccessResponse([`Devices (${names.length}):`, ...lines]);
+  }
+}
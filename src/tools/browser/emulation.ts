@@ -0,0 +1,158 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+/**
+ * Tool for resizing the viewport of the active page
+ */
+export class SetViewportTool extends BrowserToolBase {
+  /**
+   * Execute the set viewport tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!(args.width > 0) || !(args.height > 0)) {
+      return createErrorResponse("width and height must be positive numbers");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      await page.setViewportSize({ width: args.width, height: args.height });
+      return createSuccessResponse(`Viewport set to ${args.width}x${args.height}`);
+    });
+  }
+}
+
+/**
+ * Tool for setting or clearing the position reported by the geolocation API
+ */
+export class SetGeolocationTool extends BrowserToolBase {
+  /**
+   * Execute the set geolocation tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.clear && (typeof args.latitude !== 'number' || typeof args.longitude !== 'number')) {
+      return createErrorResponse("Missing required parameters: latitude and longitude, or clear");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      if (args.clear) {
+        await page.context().setGeolocation(null);
+        return createSuccessResponse("Geolocation cleared");
+      }
+
+      await page.context().setGeolocation({
+        latitude: args.latitude,
+        longitude: args.longitude,
+        accuracy: args.accuracy
+      });
+      return createSuccessResponse(
+        `Geolocation set to ${args.latitude},${args.longitude}` +
+        (args.accuracy !== undefined ? ` (accuracy ${args.accuracy}m)` : '')
+      );
+    });
+  }
+}
+
+/**
+ * Tool for granting permissions to the pages of the active context
+ */
+export class GrantPermissionsTool extends BrowserToolBase {
+  /**
+   * Execute the grant permissions tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!Array.isArray(args.permissions) || args.permissions.length === 0) {
+      return createErrorResponse("Missing required parameter: permissions must list at least one permission");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      await page.context().grantPermissions(args.permissions, args.origin ? { origin: args.origin } : undefined);
+      return createSuccessResponse(
+        `Granted ${args.permissions.join(', ')}${args.origin ? ` to ${args.origin}` : ''}`
+      );
+    });
+  }
+}
+
+/**
+ * Tool for revoking the permissions granted to the active context.
+ * Playwright can only revoke all of them at once.
+ */
+export class RevokePermissionsTool extends BrowserToolBase {
+  /**
+   * Execute the revoke permissions tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      await page.context().clearPermissions();
+      return createSuccessResponse("Revoked all granted permissions");
+    });
+  }
+}
+
+/**
+ * Tool for taking the active context offline or back online
+ */
+export class SetOfflineTool extends BrowserToolBase {
+  /**
+   * Execute the set offline tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (typeof args.offline !== 'boolean') {
+      return createErrorResponse("Missing required parameter: offline must be true or false");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      await page.context().setOffline(args.offline);
+      return createSuccessResponse(args.offline ? "Network is offline" : "Network is online");
+    });
+  }
+}
+
+/**
+ * Tool for emulating CSS media type and media features on the active page
+ */
+export class EmulateMediaTool extends BrowserToolBase {
+  /**
+   * Execute the emulate media tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const options = {
+      ...(args.media && { media: args.media }),
+      ...(args.colorScheme && { colorScheme: args.colorScheme }),
+      ...(args.reducedMotion && { reducedMotion: args.reducedMotion }),
+      ...(args.forcedColors && { forcedColors: args.forcedColors }),
+    };
+    if (Object.keys(options).length === 0) {
+      return createErrorResponse("Provide at least one of media, colorScheme, reducedMotion or forcedColors");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      await page.emulateMedia(options);
+      const applied = Object.entries(options).map(([feature, value]) => `${feature}: ${value}`);
+      return createSuccessResponse(`Emulating ${applied.join(', ')}`);
+    });
+  }
+}
+
+/**
+ * Tool for sending extra HTTP headers with every request of the active context
+ */
+export class SetExtraHeadersTool extends BrowserToolBase {
+  /**
+   * Execute the set extra headers tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.headers || typeof args.headers !== 'object' || Array.isArray(args.headers)) {
+      return createErrorResponse("Missing required parameter: headers must be an object of header names to values");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const names = Object.keys(args.headers);
+      await page.context().setExtraHTTPHeaders(args.headers);
+      return createSuccessResponse(
+        names.length > 0
+          ? `Extra HTTP headers set: ${names.join(', ')}`
+          : "Extra HTTP headers cleared"
+      );
+    });
+  }
+}
@@ -0,0 +1,222 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+const FIELD_MODES = ['text', 'html', 'attribute'] as const;
+const FIELD_TYPES = ['string', 'number', 'integer', 'boolean', 'date'] as const;
+
+// Pages scraped when a next selector is given without maxPages
+const DEFAULT_MAX_PAGES = 5;
+// How long to wait for the items to change after clicking next
+const DEFAULT_PAGE_TIMEOUT = 10000;
+
+/**
+ * How to read one field of an item
+ */
+export interface FieldSpec {
+  // Relative to the item; the item itself when left out
+  selector?: string;
+  mode?: typeof FIELD_MODES[number];
+  // Attribute to read in attribute mode
+  attribute?: string;
+  type?: typeof FIELD_TYPES[number];
+  // Collect every match instead of the first one
+  multiple?: boolean;
+}
+
+type RawValue = string | null | (string | null)[];
+type Value = string | number | boolean | null;
+
+/**
+ * Problems with a field schema, empty when it is valid
+ */
+export function validateFields(fields: Record<string, FieldSpec> | undefined): string[] {
+  if (!fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+    return ['fields must name at least one field'];
+  }
+
+  const problems: string[] = [];
+  for (const [name, field] of Object.entries(fields)) {
+    if (!field || typeof field !== 'object') {
+      problems.push(`${name}: must be an object`);
+      continue;
+    }
+    if (field.mode && !FIELD_MODES.includes(field.mode)) {
+      problems.push(`${name}: mode must be one of ${FIELD_MODES.join(', ')}`);
+    }
+    if (field.mode === 'attribute' && !field.attribute) {
+      problems.push(`${name}: attribute mode needs an attribute`);
+    }
+    if (field.type && !FIELD_TYPES.includes(field.type)) {
+      problems.push(`${name}: type must be one of ${FIELD_TYPES.join(', ')}`);
+    }
+  }
+  return problems;
+}
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on', 'checked'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off', ''];
+
+/**
+ * Converts a scraped string to the field's type, or null when it does not
+ * look like one. Numbers may carry currency signs, units and thousands
+ * separators, as in "$1,299.00".
+ */
+export function coerceValue(value: string | null, type: FieldSpec['type'] = 'string'): Value {
+  if (value === null) {
+    return null;
+  }
+
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+      if (!match) {
+        return null;
+      }
+      const number = Number(match[0]);
+      return type === 'integer' ? Math.trunc(number) : number;
+    }
+    case 'boolean': {
+      const word = value.trim().toLowerCase();
+      if (TRUE_WORDS.includes(word)) return true;
+      if (FALSE_WORDS.includes(word)) return false;
+      return null;
+    }
+    case 'date': {
+      const time = Date.parse(value.trim());
+      return Number.isNaN(time) ? null : new Date(time).toISOString();
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reads the raw fields of every item. Runs in the browser.
+ */
+function scrapeItems(items: Element[], fields: Record<string, FieldSpec>): Record<string, RawValue>[] {
+  const read = (element: Element, field: FieldSpec): string | null => {
+    switch (field.mode ?? 'text') {
+      case 'html':
+        return element.innerHTML.trim();
+      case 'attribute': {
+        const value = element.getAttribute(field.attribute);
+        if (value !== null && (field.attribute === 'href' || field.attribute === 'src')) {
+          try {
+            return new URL(value, document.baseURI).href;
+          } catch {
+            return value;
+          }
+        }
+        return value;
+      }
+      default:
+        return ((element as HTMLElement).innerText ?? element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    }
+  };
+
+  return items.map((item) => {
+    const record: Record<string, RawValue> = {};
+    for (const [name, field] of Object.entries(fields)) {
+      const matches = field.selector ? Array.from(item.querySelectorAll(field.selector)) : [item];
+      record[name] = field.multiple
+        ? matches.map((match) => read(match, field))
+        : matches.length > 0 ? read(matches[0], field) : null;
+    }
+    return record;
+  });
+}
+
+/**
+ * Something that changes when the next page of items is shown. Runs in the browser.
+ */
+function itemsSignature(itemSelector: string): string {
+  const items = document.querySelectorAll(itemSelector);
+  return `${location.href}|${items.length}|${(items[0]?.textContent ?? '').slice(0, 500)}`;
+}
+
+/**
+ * Tool for scraping repeated items into JSON with a declarative field
+ * schema, following a next page link or button
+ */
+export class ExtractTool extends BrowserToolBase {
+  /**
+   * Execute the extract tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const problems = validateFields(args.fields);
+    if (problems.length > 0) {
+      return createErrorResponse(`Invalid fields: ${problems.join('; ')}`);
+    }
+    const maxPages = args.maxPages ?? (args.nextSelector ? DEFAULT_MAX_PAGES : 1);
+    if (!Number.isInteger(maxPages) || maxPages < 1) {
+      return createErrorResponse("maxPages must be a positive integer");
+    }
+    if (maxPages > 1 && !args.nextSelector) {
+      return createErrorResponse("maxPages needs a nextSelector to move between pages");
+    }
+
+    const itemSelector: string = args.itemSelector || ':root';
+    const fields: Record<string, FieldSpec> = args.fields;
+
+    return this.safeExecute(context, async (page) => {
+      const items: Record<string, Value | Value[]>[] = [];
+      let pages = 0;
+      let stopReason: string | undefined;
+
+      while (true) {
+        const raw = await page.locator(itemSelector).evaluateAll(scrapeItems, fields);
+        pages++;
+        for (const record of raw) {
+          items.push(Object.fromEntries(Object.entries(record).map(([name, value]) => [
+            name,
+            Array.isArray(value)
+              ? value.map((entry) => coerceValue(entry, fields[name].type))
+              : coerceValue(value, fields[name].type)
+          ])));
+        }
+
+        if (args.maxItems && items.length >= args.maxItems) {
+          items.length = args.maxItems;
+          break;
+        }
+        if (pages >= maxPages) {
+          break;
+        }
+        stopReason = await this.goToNextPage(page, args.nextSelector, itemSelector, args.pageTimeout ?? DEFAULT_PAGE_TIMEOUT);
+        if (stopReason) {
+          break;
+        }
+      }
+
+      return createSuccessResponse([
+        `Extracted ${items.length} item${items.length === 1 ? '' : 's'} from ${pages} page${pages === 1 ? '' : 's'}` +
+          (stopReason ? ` (${stopReason})` : ''),
+        JSON.stringify(items, null, 2)
+      ]);
+    });
+  }
+
+  /**
+   * Clicks the next control and waits for the items to change, returning
+   * why pagination stopped if it cannot go on
+   */
+  private async goToNextPage(page: Page, nextSelector: string, itemSelector: string, timeout: number): Promise<string | undefined> {
+    const next = page.locator(nextSelector).first();
+    if ((await next.count()) === 0 || !(await next.isVisible()) || (await next.isDisabled())) {
+      return 'no next page';
+    }
+
+    const signature = `(${itemsSignature})(${JSON.stringify(itemSelector)})`;
+    const before: string = await page.evaluate(signature);
+    await next.click();
+    try {
+      await page.waitForFunction(`${signature} !== ${JSON.stringify(before)}`, undefined, { timeout });
+    } catch {
+      return `the items did not change within ${timeout}ms of clicking next`;
+    }
+    await page.waitForLoadState('domcontentloaded');
+    return undefined;
+  }
+}
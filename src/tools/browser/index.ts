@@ -5,6 +5,18 @@ export * from './console.js';
 export * from './interaction.js';
 export * from './response.js';
 export * from './useragent.js';
+export * from './tabs.js';
+export * from './contexts.js';
+export * from './profiles.js';
+export * from './devices.js';
+export * from './emulation.js';
+export * from './upload.js';
+export * from './locators.js';
+export * from './snapshot.js';
+export * from './content.js';
+export * from './extract.js';
+export * from './table.js';
+export * from './wait.js';
 
 // TODO: Add exports for other browser tools as they are implemented
 // export * from './interaction.js'; 
\ No newline at end of file
@@ -1,5 +1,112 @@
+import type { Locator, Page } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { describeTarget, hasTarget, resolveTarget } from './locators.js';
+
+// Element tools take a CSS selector, a structured locator or a snapshot reference
+const MISSING_TARGET = "Missing required parameter: selector, locator or ref must be provided";
+
+/**
+ * Locator for the element a keyboard tool is scoped to, looked up inside the
+ * iframe when one is given, or null when the tool acts on the focused element
+ */
+async function keyboardTarget(page: Page, args: any): Promise<Locator | null> {
+  if (args.ref) {
+    return resolveTarget(page, args);
+  }
+  if (!args.selector) {
+    return null;
+  }
+  return args.iframeSelector
+    ? page.frameLocator(args.iframeSelector).locator(args.selector)
+    : page.locator(args.selector);
+}
+
+/**
+ * Describes where keyboard input went, for tool responses
+ */
+function describeKeyboardTarget(args: any): string {
+  if (args.ref) {
+    return describeTarget(args);
+  }
+  if (!args.selector) {
+    return 'the focused element';
+  }
+  return args.iframeSelector ? `${args.selector} inside iframe ${args.iframeSelector}` : args.selector;
+}
+
+type MouseButton = 'left' | 'right' | 'middle';
+type Modifier = 'Alt' | 'Control' | 'ControlOrMeta' | 'Meta' | 'Shift';
+
+/**
+ * Click options given to a tool, leaving out the ones that were not
+ */
+function clickOptions(args: any) {
+  return {
+    ...(args.button && { button: args.button as MouseButton }),
+    ...(args.clickCount && { clickCount: args.clickCount as number }),
+    ...(args.modifiers?.length && { modifiers: args.modifiers as Modifier[] }),
+    ...(args.position && { position: args.position as { x: number; y: number } }),
+    ...(args.delay && { delay: args.delay as number }),
+    ...(args.force && { force: true }),
+    ...(args.trial && { trial: true }),
+  };
+}
+
+/**
+ * Describes the non-default options of a click, e.g. " (right button, 2 clicks)"
+ */
+function describeClickOptions(options: Partial<ReturnType<typeof clickOptions>>): string {
+  const parts: string[] = [];
+  if (options.button && options.button !== 'left') {
+    parts.push(`${options.button} button`);
+  }
+  if (options.clickCount > 1) {
+    parts.push(`${options.clickCount} clicks`);
+  }
+  if (options.modifiers) {
+    parts.push(`holding ${options.modifiers.join('+')}`);
+  }
+  if (options.position) {
+    parts.push(`at offset ${options.position.x},${options.position.y}`);
+  }
+  if (options.force) {
+    parts.push('forced');
+  }
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+/**
+ * Runs a mouse operation with modifier keys held down, since page.mouse
+ * does not take modifiers itself
+ */
+async function withModifiers(page: Page, modifiers: Modifier[] | undefined, operation: () => Promise<void>): Promise<void> {
+  const held: Modifier[] = [];
+  try {
+    for (const modifier of modifiers ?? []) {
+      await page.keyboard.down(modifier);
+      held.push(modifier);
+    }
+    await operation();
+  } finally {
+    for (const modifier of held.reverse()) {
+      await page.keyboard.up(modifier);
+    }
+  }
+}
+
+/**
+ * Center of an element in page coordinates, scrolling it into view first
+ */
+async function centerOf(page: Page, selector: string): Promise<{ x: number; y: number }> {
+  const locator = page.locator(selector);
+  await locator.scrollIntoViewIfNeeded();
+  const box = await locator.boundingBox();
+  if (!box) {
+    throw new Error(`Element is not visible: ${selector}`);
+  }
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
 
 /**
  * Tool for clicking elements on the page
@@ -9,9 +116,113 @@ export class ClickTool extends BrowserToolBase {
    * Execute the click tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!hasTarget(args)) {
+      return createErrorResponse(MISSING_TARGET);
+    }
+
     return this.safeExecute(context, async (page) => {
-      await page.click(args.selector);
-      return createSuccessResponse(`Clicked element: ${args.selector}`);
+      const options = clickOptions(args);
+      const locator = await resolveTarget(page, args);
+      if (locator) {
+        await locator.click(options);
+      } else {
+        await page.click(args.selector, options);
+      }
+      if (options.trial) {
+        return createSuccessResponse(`Element is clickable: ${describeTarget(args)}${describeClickOptions(options)}`);
+      }
+      return createSuccessResponse(`Clicked element: ${describeTarget(args)}${describeClickOptions(options)}`);
+    });
+  }
+}
+
+/**
+ * Tool for clicking at page coordinates, for canvas and map based interfaces
+ */
+export class ClickAtTool extends BrowserToolBase {
+  /**
+   * Execute the click at tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (typeof args.x !== 'number' || typeof args.y !== 'number') {
+      return createErrorResponse("Missing required parameters: x and y must be provided");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const { modifiers, position, force, trial, ...options } = clickOptions(args);
+      await withModifiers(page, modifiers, () => page.mouse.click(args.x, args.y, options));
+      return createSuccessResponse(`Clicked at ${args.x},${args.y}${describeClickOptions({ ...options, modifiers })}`);
+    });
+  }
+}
+
+/**
+ * Tool for scrolling with the mouse wheel, over an element or a point when given
+ */
+export class MouseWheelTool extends BrowserToolBase {
+  /**
+   * Execute the mouse wheel tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const deltaX = args.deltaX ?? 0;
+    const deltaY = args.deltaY ?? 0;
+    if (deltaX === 0 && deltaY === 0) {
+      return createErrorResponse("Provide a non-zero deltaX or deltaY");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      if (args.selector) {
+        await page.hover(args.selector);
+      } else if (typeof args.x === 'number' && typeof args.y === 'number') {
+        await page.mouse.move(args.x, args.y);
+      }
+      await page.mouse.wheel(deltaX, deltaY);
+
+      const where = args.selector
+        ? ` over ${args.selector}`
+        : typeof args.x === 'number' && typeof args.y === 'number' ? ` at ${args.x},${args.y}` : '';
+      return createSuccessResponse(`Scrolled by ${deltaX},${deltaY}${where}`);
+    });
+  }
+}
+
+/**
+ * Tool for dragging from one element or point to another
+ */
+export class DragTool extends BrowserToolBase {
+  /**
+   * Execute the drag tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const hasSourcePoint = typeof args.sourceX === 'number' && typeof args.sourceY === 'number';
+    const hasTargetPoint = typeof args.targetX === 'number' && typeof args.targetY === 'number';
+    if (!args.sourceSelector && !hasSourcePoint) {
+      return createErrorResponse("Missing drag source: provide sourceSelector, or sourceX and sourceY");
+    }
+    if (!args.targetSelector && !hasTargetPoint) {
+      return createErrorResponse("Missing drag target: provide targetSelector, or targetX and targetY");
+    }
+
+    const source = args.sourceSelector ?? `${args.sourceX},${args.sourceY}`;
+    const target = args.targetSelector ?? `${args.targetX},${args.targetY}`;
+
+    return this.safeExecute(context, async (page) => {
+      if (args.sourceSelector && args.targetSelector) {
+        await page.dragAndDrop(args.sourceSelector, args.targetSelector, {
+          ...(args.force && { force: true }),
+          ...(args.steps && { steps: args.steps })
+        });
+        return createSuccessResponse(`Dragged ${source} to ${target}`);
+      }
+
+      // Dragging from or to a point is done with raw mouse moves
+      const from = args.sourceSelector ? await centerOf(page, args.sourceSelector) : { x: args.sourceX, y: args.sourceY };
+      const to = args.targetSelector ? await centerOf(page, args.targetSelector) : { x: args.targetX, y: args.targetY };
+      await page.mouse.move(from.x, from.y);
+      await page.mouse.down();
+      await page.mouse.move(to.x, to.y, { steps: args.steps ?? 10 });
+      await page.mouse.up();
+      return createSuccessResponse(`Dragged ${source} to ${target}`);
     });
   }
 }
@@ -44,14 +255,169 @@ export class FillTool extends BrowserToolBase {
    * Execute the fill tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!hasTarget(args)) {
+      return createErrorResponse(MISSING_TARGET);
+    }
+
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.fill(args.selector, args.value);
-      return createSuccessResponse(`Filled ${args.selector} with: ${args.value}`);
+      const locator = await resolveTarget(page, args);
+      if (locator) {
+        await locator.fill(args.value);
+      } else {
+        await page.waitForSelector(args.selector);
+        await page.fill(args.selector, args.value);
+      }
+      return createSuccessResponse(`Filled ${describeTarget(args)} with: ${args.value}`);
+    });
+  }
+}
+
+/**
+ * Tool for pressing a key or key combination, such as Enter, Tab or Control+A
+ */
+export class PressKeyTool extends BrowserToolBase {
+  /**
+   * Execute the press key tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.key) {
+      return createErrorResponse("Missing required parameter: key must be provided");
+    }
+    if (args.iframeSelector && !args.selector) {
+      return createErrorResponse("iframeSelector requires a selector for the element inside the iframe");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const target = await keyboardTarget(page, args);
+      const options = { delay: args.delay };
+      if (target) {
+        await target.press(args.key, options);
+      } else {
+        await page.keyboard.press(args.key, options);
+      }
+      return createSuccessResponse(`Pressed ${args.key} on ${describeKeyboardTarget(args)}`);
+    });
+  }
+}
+
+/**
+ * Tool for typing text key by key, for fields that react to every keystroke
+ */
+export class TypeTool extends BrowserToolBase {
+  /**
+   * Execute the type tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (typeof args.text !== 'string') {
+      return createErrorResponse("Missing required parameter: text must be provided");
+    }
+    if (args.iframeSelector && !args.selector) {
+      return createErrorResponse("iframeSelector requires a selector for the element inside the iframe");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const target = await keyboardTarget(page, args);
+      const options = { delay: args.delay };
+      if (target) {
+        if (args.clear) {
+          await target.clear();
+        }
+        await target.pressSequentially(args.text, options);
+      } else {
+        await page.keyboard.type(args.text, options);
+      }
+      return createSuccessResponse(`Typed "${args.text}" into ${describeKeyboardTarget(args)}`);
+    });
+  }
+}
+
+/**
+ * Tool for holding a key down, for example a modifier for following clicks or key presses
+ */
+export class KeyDownTool extends BrowserToolBase {
+  /**
+   * Execute the key down tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.key) {
+      return createErrorResponse("Missing required parameter: key must be provided");
+    }
+    if (args.iframeSelector && !args.selector) {
+      return createErrorResponse("iframeSelector requires a selector for the element inside the iframe");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      await (await keyboardTarget(page, args))?.focus();
+      await page.keyboard.down(args.key);
+      return createSuccessResponse(`Holding ${args.key} down on ${describeKeyboardTarget(args)}`);
+    });
+  }
+}
+
+/**
+ * Tool for releasing a key held down by the key down tool
+ */
+export class KeyUpTool extends BrowserToolBase {
+  /**
+   * Execute the key up tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!args.key) {
+      return createErrorResponse("Missing required parameter: key must be provided");
+    }
+    if (args.iframeSelector && !args.selector) {
+      return createErrorResponse("iframeSelector requires a selector for the element inside the iframe");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      await (await keyboardTarget(page, args))?.focus();
+      await page.keyboard.up(args.key);
+      return createSuccessResponse(`Released ${args.key} on ${describeKeyboardTarget(args)}`);
     });
   }
 }
 
+/**
+ * Checks or unchecks a checkbox or radio button, then verifies its final state
+ */
+async function setCheckedState(page: Page, args: any, checked: boolean): Promise<ToolResponse> {
+  if (!args.selector && !args.ref) {
+    return createErrorResponse("Missing required parameter: selector or ref must be provided");
+  }
+
+  const locator = (await resolveTarget(page, { ref: args.ref })) ?? page.locator(args.selector);
+  await locator.setChecked(checked, { ...(args.force && { force: true }) });
+
+  if ((await locator.isChecked()) !== checked) {
+    return createErrorResponse(`${describeTarget(args)} is still ${checked ? 'unchecked' : 'checked'}`);
+  }
+  return createSuccessResponse(`${checked ? 'Checked' : 'Unchecked'} ${describeTarget(args)}`);
+}
+
+/**
+ * Tool for checking a checkbox or selecting a radio button
+ */
+export class CheckTool extends BrowserToolBase {
+  /**
+   * Execute the check tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, (page) => setCheckedState(page, args, true));
+  }
+}
+
+/**
+ * Tool for unchecking a checkbox
+ */
+export class UncheckTool extends BrowserToolBase {
+  /**
+   * Execute the uncheck tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, (page) => setCheckedState(page, args, false));
+  }
+}
+
 /**
  * Tool for selecting options from dropdown menus
  */
@@ -60,10 +426,39 @@ export class SelectTool extends BrowserToolBase {
    * Execute the select tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const options = [
+      ...(args.values ?? []).map((value: string) => ({ value })),
+      ...(args.labels ?? []).map((label: string) => ({ label })),
+      ...(args.indexes ?? []).map((index: number) => ({ index })),
+    ];
+    if (!hasTarget(args)) {
+      return createErrorResponse(MISSING_TARGET);
+    }
+    if (args.value === undefined && options.length === 0) {
+      return createErrorResponse("Provide value, values, labels or indexes to select");
+    }
+
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.selectOption(args.selector, args.value);
-      return createSuccessResponse(`Selected ${args.selector} with: ${args.value}`);
+      const locator = await resolveTarget(page, args);
+      if (!locator) {
+        await page.waitForSelector(args.selector);
+      }
+      if (options.length === 0) {
+        if (locator) {
+          await locator.selectOption(args.value);
+        } else {
+          await page.selectOption(args.selector, args.value);
+        }
+        return createSuccessResponse(`Selected ${describeTarget(args)} with: ${args.value}`);
+      }
+
+      if (args.value !== undefined) {
+        options.unshift({ value: args.value });
+      }
+      const selected = locator
+        ? await locator.selectOption(options)
+        : await page.selectOption(args.selector, options);
+      return createSuccessResponse(`Selected ${describeTarget(args)} with: ${selected.join(', ')}`);
     });
   }
 }
@@ -76,10 +471,19 @@ export class HoverTool extends BrowserToolBase {
    * Execute the hover tool
    */
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!hasTarget(args)) {
+      return createErrorResponse(MISSING_TARGET);
+    }
+
     return this.safeExecute(context, async (page) => {
-      await page.waitForSelector(args.selector);
-      await page.hover(args.selector);
-      return createSuccessResponse(`Hovered ${args.selector}`);
+      const locator = await resolveTarget(page, args);
+      if (locator) {
+        await locator.hover();
+      } else {
+        await page.waitForSelector(args.selector);
+        await page.hover(args.selector);
+      }
+      return createSuccessResponse(`Hovered ${describeTarget(args)}`);
     });
   }
 }
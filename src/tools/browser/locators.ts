@@ -0,0 +1,221 @@
+import type { FrameLocator, Locator, Page } from 'playwright';
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+/**
+ * Finds elements by what the user sees rather than by CSS. Exactly one of
+ * role, text, label, placeholder, testId, altText or selector picks the elements.
+ */
+export interface LocatorSpec {
+  role?: string;
+  // Accessible name, for role
+  name?: string;
+  text?: string;
+  label?: string;
+  placeholder?: string;
+  testId?: string;
+  altText?: string;
+  selector?: string;
+  // Match name, text, label, placeholder or altText exactly instead of by substring
+  exact?: boolean;
+  filter?: LocatorFilter[];
+  nth?: number;
+  first?: boolean;
+  last?: boolean;
+}
+
+/**
+ * Narrows a locator to elements with or without some text or descendant
+ */
+export interface LocatorFilter {
+  hasText?: string;
+  hasNotText?: string;
+  has?: LocatorSpec;
+  hasNot?: LocatorSpec;
+}
+
+const STRATEGIES = ['role', 'text', 'label', 'placeholder', 'testId', 'altText', 'selector'] as const;
+
+// Candidates listed when a locator matches more than one element
+const MAX_CANDIDATES = 10;
+
+/**
+ * Translates a locator spec into a Playwright locator
+ */
+export function buildLocator(root: Page | FrameLocator, spec: LocatorSpec): Locator {
+  const strategies = STRATEGIES.filter((strategy) => spec[strategy] !== undefined);
+  if (strategies.length !== 1) {
+    throw new Error(
+      strategies.length === 0
+        ? `A locator needs one of ${STRATEGIES.join(', ')}`
+        : `A locator takes only one of ${strategies.join(', ')}`
+    );
+  }
+
+  const exact = spec.exact;
+  let locator: Locator;
+  switch (strategies[0]) {
+    case 'role':
+      locator = root.getByRole(spec.role as AriaRole, {
+        ...(spec.name !== undefined && { name: spec.name }),
+        ...(exact !== undefined && { exact })
+      });
+      break;
+    case 'text':
+      locator = root.getByText(spec.text, { exact });
+      break;
+    case 'label':
+      locator = root.getByLabel(spec.label, { exact });
+      break;
+    case 'placeholder':
+      locator = root.getByPlaceholder(spec.placeholder, { exact });
+      break;
+    case 'testId':
+      locator = root.getByTestId(spec.testId);
+      break;
+    case 'altText':
+      locator = root.getByAltText(spec.altText, { exact });
+      break;
+    case 'selector':
+      locator = root.locator(spec.selector);
+      break;
+  }
+
+  for (const filter of spec.filter ?? []) {
+    locator = locator.filter({
+      ...(filter.hasText !== undefined && { hasText: filter.hasText }),
+      ...(filter.hasNotText !== undefined && { hasNotText: filter.hasNotText }),
+      ...(filter.has && { has: buildLocator(root, filter.has) }),
+      ...(filter.hasNot && { hasNot: buildLocator(root, filter.hasNot) })
+    });
+  }
+
+  if (spec.nth !== undefined) {
+    locator = locator.nth(spec.nth);
+  } else if (spec.first) {
+    locator = locator.first();
+  } else if (spec.last) {
+    locator = locator.last();
+  }
+  return locator;
+}
+
+/**
+ * Describes a locator spec for tool responses, e.g. `role "button" named "Save"`
+ */
+export function describeLocator(spec: LocatorSpec): string {
+  const quote = (value: string) => JSON.stringify(value);
+  const parts: string[] = [];
+
+  if (spec.role !== undefined) {
+    parts.push(`role ${quote(spec.role)}${spec.name !== undefined ? ` named ${quote(spec.name)}` : ''}`);
+  }
+  for (const strategy of ['text', 'label', 'placeholder', 'testId', 'altText', 'selector'] as const) {
+    if (spec[strategy] !== undefined) {
+      parts.push(`${strategy} ${quote(spec[strategy])}`);
+    }
+  }
+  if (spec.exact) {
+    parts.push('exact');
+  }
+  for (const filter of spec.filter ?? []) {
+    if (filter.hasText !== undefined) parts.push(`having text ${quote(filter.hasText)}`);
+    if (filter.hasNotText !== undefined) parts.push(`without text ${quote(filter.hasNotText)}`);
+    if (filter.has) parts.push(`containing ${describeLocator(filter.has)}`);
+    if (filter.hasNot) parts.push(`not containing ${describeLocator(filter.hasNot)}`);
+  }
+  if (spec.nth !== undefined) {
+    parts.push(`match #${spec.nth}`);
+  } else if (spec.first) {
+    parts.push('first match');
+  } else if (spec.last) {
+    parts.push('last match');
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * Builds the locator and makes sure it does not match several elements, which
+ * would make Playwright fail with a strict mode violation. No match yet is
+ * fine: actions wait for the element to appear.
+ */
+export async function locateUnique(root: Page | FrameLocator, spec: LocatorSpec): Promise<Locator> {
+  const locator = buildLocator(root, spec);
+  const count = await locator.count();
+  if (count <= 1) {
+    return locator;
+  }
+
+  const candidates = await Promise.all(
+    Array.from({ length: Math.min(count, MAX_CANDIDATES) }, (_, index) =>
+      locator.nth(index).evaluate(describeElement).then((description) => `  [${index}] ${description}`)
+    )
+  );
+  throw new Error([
+    `Locator ${describeLocator(spec)} matches ${count} elements. Narrow it down with name, exact, filter or nth:`,
+    ...candidates,
+    ...(count > MAX_CANDIDATES ? [`  ... and ${count - MAX_CANDIDATES} more`] : [])
+  ].join('\n'));
+}
+
+/**
+ * Short description of an element, e.g. `<button id="save"> "Save draft"`.
+ * Runs in the browser.
+ */
+function describeElement(element: Element): string {
+  const attributes = ['id', 'name', 'type', 'role', 'data-testid', 'aria-label', 'placeholder', 'href']
+    .filter((attribute) => element.hasAttribute(attribute))
+    .map((attribute) => ` ${attribute}="${element.getAttribute(attribute)}"`)
+    .join('');
+  const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+  const snippet = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  return `<${element.tagName.toLowerCase()}${attributes}>${snippet ? ` "${snippet}"` : ''}`;
+}
+
+/**
+ * Locator for an element reference from the latest playwright_snapshot of the
+ * page. References are only valid until the next snapshot or navigation.
+ */
+export async function locateRef(page: Page, ref: string): Promise<Locator> {
+  const locator = page.locator(`aria-ref=${ref}`);
+  if ((await locator.count()) === 0) {
+    throw new Error(`Element ${ref} is not in the latest snapshot of the page or no longer exists. Take a new playwright_snapshot`);
+  }
+  return locator;
+}
+
+/**
+ * Whether a tool was told which element to act on
+ */
+export function hasTarget(args: { selector?: string; locator?: LocatorSpec; ref?: string }): boolean {
+  return Boolean(args.selector || args.locator || args.ref);
+}
+
+/**
+ * Locator for the element given by ref or locator, or null when the tool
+ * should use its CSS selector
+ */
+export async function resolveTarget(
+  page: Page,
+  args: { locator?: LocatorSpec; ref?: string }
+): Promise<Locator | null> {
+  if (args.ref) {
+    return locateRef(page, args.ref);
+  }
+  if (args.locator) {
+    return locateUnique(page, args.locator);
+  }
+  return null;
+}
+
+/**
+ * Describes the element a tool targets, by its snapshot reference, structured
+ * locator or CSS selector
+ */
+export function describeTarget(args: { selector?: string; locator?: LocatorSpec; ref?: string }): string {
+  if (args.ref) {
+    return `ref ${args.ref}`;
+  }
+  return args.locator ? describeLocator(args.locator) : args.selector;
+}
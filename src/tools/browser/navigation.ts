@@ -1,6 +1,6 @@
+import type { Page, Response } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
-import { resetBrowserState } from '../../toolHandler.js';
 
 /**
  * Tool for navigating to URLs
@@ -13,7 +13,7 @@ export class NavigationTool extends BrowserToolBase {
     // Check if browser is available
     if (!context.browser || !context.browser.isConnected()) {
       // If browser is not connected, we need to reset the state to force recreation
-      resetBrowserState();
+      context.resetBrowserState?.();
       return createErrorResponse(
         "Browser is not connected. The connection has been reset - please retry your navigation."
       );
@@ -37,14 +37,15 @@ export class NavigationTool extends BrowserToolBase {
       } catch (error) {
         const errorMessage = (error as Error).message;
         
-        // Check for common disconnection errors
+        // Check for common disconnection errors; a closed tab is left to safeExecute
         if (
-          errorMessage.includes("Target page, context or browser has been closed") ||
-          errorMessage.includes("Target closed") ||
-          errorMessage.includes("Browser has been disconnected")
+          !context.browser.isConnected() &&
+          (errorMessage.includes("Target page, context or browser has been closed") ||
+            errorMessage.includes("Target closed") ||
+            errorMessage.includes("Browser has been disconnected"))
         ) {
           // Reset browser state to force recreation on next attempt
-          resetBrowserState();
+          context.resetBrowserState?.();
           return createErrorResponse(
             `Browser connection issue: ${errorMessage}. Connection has been reset - please retry your navigation.`
           );
@@ -57,6 +58,82 @@ export class NavigationTool extends BrowserToolBase {
   }
 }
 
+/**
+ * Navigation options shared by the history tools, with the navigate defaults
+ */
+function historyOptions(args: any) {
+  return {
+    timeout: args.timeout || 30000,
+    waitUntil: (args.waitUntil || "load") as "load" | "domcontentloaded" | "networkidle" | "commit"
+  };
+}
+
+/**
+ * Describes where a navigation landed: URL, title and the HTTP status of the
+ * main document, which is missing when the page came from the back/forward
+ * cache or changed within the same document
+ */
+async function describeLanding(page: Page, response: Response | null): Promise<string[]> {
+  return [
+    `URL: ${page.url()}`,
+    `Title: ${await page.title()}`,
+    `Status: ${response ? `${response.status()} ${response.statusText()}`.trim() : 'none (no new document was requested)'}`
+  ];
+}
+
+/**
+ * Tool for going back to the previous page in the tab's history
+ */
+export class GoBackTool extends BrowserToolBase {
+  /**
+   * Execute the go back tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const before = page.url();
+      const response = await page.goBack(historyOptions(args));
+      if (!response && page.url() === before) {
+        return createErrorResponse(`There is no previous page in the history of ${before}`);
+      }
+      return createSuccessResponse(["Went back", ...await describeLanding(page, response)]);
+    });
+  }
+}
+
+/**
+ * Tool for going forward to the next page in the tab's history
+ */
+export class GoForwardTool extends BrowserToolBase {
+  /**
+   * Execute the go forward tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const before = page.url();
+      const response = await page.goForward(historyOptions(args));
+      if (!response && page.url() === before) {
+        return createErrorResponse(`There is no next page in the history of ${before}`);
+      }
+      return createSuccessResponse(["Went forward", ...await describeLanding(page, response)]);
+    });
+  }
+}
+
+/**
+ * Tool for reloading the current page
+ */
+export class ReloadTool extends BrowserToolBase {
+  /**
+   * Execute the reload tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const response = await page.reload(historyOptions(args));
+      return createSuccessResponse(["Reloaded", ...await describeLanding(page, response)]);
+    });
+  }
+}
+
 /**
  * Tool for closing the browser
  */
@@ -67,7 +144,7 @@ export class CloseBrowserTool extends BrowserToolBase {
   async execute(args: any, context: ToolContext): Promise<ToolResponse> {
     if (context.browser) {
       try {
-        // Check if browser is still connected
+        // Check if browser is still connected; a browser we connected to is only disconnected from
         if (context.browser.isConnected()) {
           await context.browser.close().catch(error => {
             console.error("Error while closing browser:", error);
@@ -79,11 +156,15 @@ export class CloseBrowserTool extends BrowserToolBase {
         console.error("Error during browser close operation:", error);
         // Continue with resetting state even if close fails
       } finally {
-        // Always reset the global browser and page references
-        resetBrowserState();
+        // Always reset the session's browser and page references
+        context.resetBrowserState?.();
       }
       
-      return createSuccessResponse("Browser closed successfully");
+      return createSuccessResponse(
+        context.connectedBrowser
+          ? "Disconnected from browser; the browser itself keeps running"
+          : "Browser closed successfully"
+      );
     }
     
     return createSuccessResponse("No browser instance to close");
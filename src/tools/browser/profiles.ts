@@ -0,0 +1,40 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { PROFILE_URI_PREFIX, type ProfileStore } from '../../profiles.js';
+
+/**
+ * Tool for saving the cookies and localStorage of the active context as a named profile
+ */
+export class SaveProfileTool extends BrowserToolBase {
+  private profiles?: ProfileStore;
+
+  constructor(server: any, profiles?: ProfileStore) {
+    super(server);
+    this.profiles = profiles;
+  }
+
+  /**
+   * Execute the save profile tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    if (!this.profiles) {
+      return createErrorResponse("Storage state profiles are not configured");
+    }
+    if (!args.name) {
+      return createErrorResponse("Missing required parameter: name must be provided");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const saved = await this.profiles.save(args.name, page.context());
+
+      // Profiles are listed as resources, so clients should refresh their list
+      await this.server?.sendResourceListChanged?.();
+
+      return createSuccessResponse([
+        `Saved profile "${args.name}" with ${saved.cookies} cookies and localStorage for ${saved.origins} origins`,
+        `File: ${saved.path}`,
+        `Resource: ${PROFILE_URI_PREFIX}${args.name}`
+      ]);
+    });
+  }
+}
@@ -3,6 +3,7 @@ import * as path from 'node:path';
 import * as os from 'node:os';
 import type { Page } from 'playwright';
 import { BrowserToolBase } from './base.js';
+import { describeTarget, resolveTarget } from './locators.js';
 import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
 
 const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
@@ -12,6 +13,12 @@ const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
  */
 export class ScreenshotTool extends BrowserToolBase {
   private screenshots = new Map<string, string>();
+  private defaultDownloadsDir: string;
+
+  constructor(server: any, defaultDownloadsDir: string = defaultDownloadsPath) {
+    super(server);
+    this.defaultDownloadsDir = defaultDownloadsDir;
+  }
 
   /**
    * Execute the screenshot tool
@@ -40,7 +47,7 @@ export class ScreenshotTool extends BrowserToolBase {
       // Generate output path
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const filename = `${args.name || 'screenshot'}-${timestamp}.png`;
-      const downloadsDir = args.downloadsDir || defaultDownloadsPath;
+      const downloadsDir = args.downloadsDir || this.defaultDownloadsDir;
 
       if (!fs.existsSync(downloadsDir)) {
         fs.mkdirSync(downloadsDir, { recursive: true });
@@ -49,15 +56,22 @@ export class ScreenshotTool extends BrowserToolBase {
       const outputPath = path.join(downloadsDir, filename);
       screenshotOptions.path = outputPath;
 
-      const screenshot = await page.screenshot(screenshotOptions);
+      // A locator or ref screenshot captures just the element it points to
+      const target = await resolveTarget(page, args);
+      const screenshot = target
+        ? await target.screenshot({ path: outputPath, type: screenshotOptions.type })
+        : await page.screenshot(screenshotOptions);
       const base64Screenshot = screenshot.toString('base64');
 
       const messages = [`Screenshot saved to: ${path.relative(process.cwd(), outputPath)}`];
+      if (target) {
+        messages.push(`Captured element: ${describeTarget(args)}`);
+      }
 
       // Handle base64 storage
       if (args.storeBase64 !== false) {
         this.screenshots.set(args.name || 'screenshot', base64Screenshot);
-        this.server.notification({
+        this.server?.notification?.({
           method: "notifications/resources/list_changed",
         });
 
@@ -0,0 +1,30 @@
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse } from '../common/types.js';
+
+/**
+ * Tool for capturing the accessibility tree of the page, with a reference
+ * such as e42 for each element that the interaction tools accept as `ref`
+ */
+export class SnapshotTool extends BrowserToolBase {
+  /**
+   * Execute the snapshot tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.safeExecute(context, async (page) => {
+      const root = args.selector ? page.locator(args.selector) : page;
+      const snapshot = await root.ariaSnapshot({
+        mode: 'ai',
+        ...(args.depth !== undefined && { depth: args.depth }),
+      });
+
+      return createSuccessResponse([
+        `Page URL: ${page.url()}`,
+        `Page title: ${await page.title()}`,
+        ...(args.selector ? [`Scope: ${args.selector}`] : []),
+        'Pass an element\'s ref, such as "e2", to the interaction tools instead of a selector. Refs stay valid until the next snapshot.',
+        '',
+        snapshot
+      ]);
+    });
+  }
+}
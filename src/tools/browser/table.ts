@@ -0,0 +1,225 @@
+import fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+const defaultDownloadsPath = path.join(os.homedir(), 'Downloads');
+
+// Rows returned per call unless the caller asks for another page size
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Cell texts of a table laid out on a grid, with spanned cells repeated in
+ * every slot they cover, and how many leading rows are headers
+ */
+export interface TableGrid {
+  rows: string[][];
+  headerRows: number;
+}
+
+/**
+ * Reads a table or ARIA grid into a grid of cell texts. Runs in the browser.
+ */
+function readTable(table: Element): TableGrid {
+  const text = (cell: Element) => ((cell as HTMLElement).innerText ?? cell.textContent ?? '').replace(/\s+/g, ' ').trim();
+  const span = (value: string | null | number) => Math.min(Math.max(Number(value) || 1, 1), 1000);
+
+  let rows: { cells: { text: string; colSpan: number; rowSpan: number; header: boolean }[]; inHead: boolean }[];
+  if (table instanceof HTMLTableElement) {
+    rows = Array.from(table.rows).map((row) => ({
+      inHead: row.parentElement?.tagName === 'THEAD',
+      cells: Array.from(row.cells).map((cell) => ({
+        text: text(cell),
+        colSpan: span(cell.colSpan),
+        rowSpan: span(cell.rowSpan),
+        header: cell.tagName === 'TH'
+      }))
+    }));
+  } else {
+    // ARIA grids; rows of nested grids belong to those grids
+    rows = Array.from(table.querySelectorAll('[role="row"]'))
+      .filter((row) => row.parentElement?.closest('[role="grid"], [role="table"], [role="treegrid"]') === table)
+      .map((row) => ({
+        inHead: false,
+        cells: Array.from(row.querySelectorAll('[role="columnheader"], [role="rowheader"], [role="gridcell"], [role="cell"]'))
+          .filter((cell) => cell.closest('[role="row"]') === row)
+          .map((cell) => ({
+            text: text(cell),
+            colSpan: span(cell.getAttribute('aria-colspan')),
+            rowSpan: span(cell.getAttribute('aria-rowspan')),
+            header: cell.getAttribute('role') === 'columnheader'
+          }))
+      }));
+  }
+
+  const grid: string[][] = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let column = 0;
+    for (const cell of row.cells) {
+      while (grid[r][column] !== undefined) {
+        column++;
+      }
+      for (let dr = 0; dr < cell.rowSpan && r + dr < grid.length; dr++) {
+        for (let dc = 0; dc < cell.colSpan; dc++) {
+          grid[r + dr][column + dc] = cell.text;
+        }
+      }
+      column += cell.colSpan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  const filled = grid.map((row) => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+
+  // Header rows are the thead, or else the leading rows made only of header cells
+  let headerRows = rows.filter((row) => row.inHead).length;
+  if (headerRows === 0) {
+    while (headerRows < rows.length && rows[headerRows].cells.length > 0 && rows[headerRows].cells.every((cell) => cell.header)) {
+      headerRows++;
+    }
+  }
+  return { rows: filled, headerRows };
+}
+
+/**
+ * Column names from the header rows, joining stacked headers with " / " and
+ * making names unique
+ */
+export function columnNames(grid: TableGrid): string[] {
+  const width = grid.rows[0]?.length ?? 0;
+  const seen = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    for (const row of grid.rows.slice(0, grid.headerRows)) {
+      const part = row[column];
+      if (part && part !== parts[parts.length - 1]) {
+        parts.push(part);
+      }
+    }
+    const name = parts.join(' / ') || `Column ${column + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+/**
+ * Formats rows as CSV, quoting the values that need it
+ */
+export function toCsv(columns: string[], rows: string[][]): string {
+  const quote = (value: string) => /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [columns, ...rows].map((row) => row.map(quote).join(',')).join('\n');
+}
+
+/**
+ * Formats rows as JSON objects keyed by column name
+ */
+function toJson(columns: string[], rows: string[][]): string {
+  return JSON.stringify(
+    rows.map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i]]))),
+    null,
+    2
+  );
+}
+
+/**
+ * Tool for reading an HTML table or ARIA grid into JSON rows or CSV
+ */
+export class ExtractTableTool extends BrowserToolBase {
+  private outputDir: string;
+
+  constructor(server: any, outputDir: string = defaultDownloadsPath) {
+    super(server);
+    this.outputDir = outputDir;
+  }
+
+  /**
+   * Execute the extract table tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const format = args.format ?? 'json';
+    const offset = args.offset ?? 0;
+    const limit = args.limit ?? DEFAULT_LIMIT;
+    if (format !== 'json' && format !== 'csv') {
+      return createErrorResponse("format must be json or csv");
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return createErrorResponse("offset must be a non-negative integer");
+    }
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return createErrorResponse("limit must be a positive integer");
+    }
+    let outputPath: string | undefined;
+    if (args.saveAs) {
+      try {
+        outputPath = this.resolveOutput(args.saveAs);
+      } catch (error) {
+        return createErrorResponse((error as Error).message);
+      }
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const selector = args.selector || 'table, [role="grid"], [role="table"], [role="treegrid"]';
+      const tables = page.locator(selector);
+      const count = await tables.count();
+      if (count === 0) {
+        return createErrorResponse(`No table found${args.selector ? ` at ${args.selector}` : ''}`);
+      }
+      if (count > 1) {
+        return createErrorResponse(
+          `${args.selector ?? 'The page'} matches ${count} tables. Pick one with a more specific selector, such as "${args.selector ?? 'table'} >> nth=1"`
+        );
+      }
+
+      const grid = await tables.evaluate(readTable);
+      if (args.headerRows !== undefined) {
+        grid.headerRows = args.headerRows;
+      }
+      const columns = columnNames(grid);
+      const body = grid.rows.slice(grid.headerRows);
+      const serialize = format === 'csv' ? toCsv : toJson;
+      if (body.length > 0 && offset >= body.length) {
+        return createErrorResponse(`offset ${offset} is past the last row (${body.length} rows)`);
+      }
+
+      const messages: string[] = [];
+      if (outputPath) {
+        fs.writeFileSync(outputPath, serialize(columns, body));
+        messages.push(`Saved ${body.length} rows to: ${path.relative(process.cwd(), outputPath)}`);
+      }
+
+      const end = Math.min(offset + limit, body.length);
+      messages.unshift(
+        `Table with ${body.length} rows and ${columns.length} columns: ${columns.join(', ')}` +
+          (offset > 0 || end < body.length ? `. Rows ${offset}-${end}` : '') +
+          (end < body.length ? `; call again with offset ${end} for the next rows` : '')
+      );
+      messages.push(serialize(columns, body.slice(offset, end)));
+      return createSuccessResponse(messages);
+    });
+  }
+
+  /**
+   * Resolves a file name inside the output directory, refusing anything that
+   * lies outside of it, symbolic links included
+   */
+  private resolveOutput(file: string): string {
+    if (path.basename(file) !== file) {
+      throw new Error("saveAs must be a file name without directories");
+    }
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    const root = fs.realpathSync(this.outputDir);
+    const resolved = path.resolve(root, file);
+
+    const relative = path.relative(root, resolved);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`saveAs is outside the output directory: ${file}`);
+    }
+    if (fs.lstatSync(resolved, { throwIfNoEntry: false })?.isSymbolicLink()) {
+      throw new Error(`saveAs names a symbolic link: ${file}`);
+    }
+    return resolved;
+  }
+}
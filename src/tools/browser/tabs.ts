@@ -0,0 +1,139 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, TabManager, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+/**
+ * Describes a tab as "[index] title - url", marking the active one
+ */
+async function describeTab(page: Page, index: number, active: boolean): Promise<string> {
+  const title = await page.title().catch(() => '');
+  return `[${index}] ${title || '(untitled)'} - ${page.url()}${active ? ' (active)' : ''}`;
+}
+
+/**
+ * Base class for tools that manage the tabs of a session
+ */
+abstract class TabToolBase extends BrowserToolBase {
+  /**
+   * Runs a tab operation, reporting a missing tab manager or a failed operation as an error
+   */
+  protected async withTabs(
+    context: ToolContext,
+    operation: (tabs: TabManager) => Promise<ToolResponse>
+  ): Promise<ToolResponse> {
+    if (!context.tabs) {
+      return createErrorResponse("Tab management is not available");
+    }
+
+    return this.safeExecute(context, () => operation(context.tabs));
+  }
+}
+
+/**
+ * Tool for listing the open tabs of the session
+ */
+export class ListTabsTool extends TabToolBase {
+  /**
+   * Execute the list tabs tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withTabs(context, async (tabs) => {
+      const { pages, activeIndex } = tabs.list();
+      const lines = await Promise.all(
+        pages.map((page, index) => describeTab(page, index, index === activeIndex))
+      );
+      return createSuccessResponse([`Open tabs (${pages.length}):`, ...lines]);
+    });
+  }
+}
+
+/**
+ * Tool for opening a new tab, optionally navigating it to a URL
+ */
+export class NewTabTool extends TabToolBase {
+  /**
+   * Execute the new tab tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withTabs(context, async (tabs) => {
+      const page = await tabs.open();
+      if (args.url) {
+        await page.goto(args.url, {
+          timeout: args.timeout || 30000,
+          waitUntil: args.waitUntil || "load"
+        });
+      }
+
+      const { pages } = tabs.list();
+      return createSuccessResponse([
+        `Opened new tab and switched to it`,
+        await describeTab(page, pages.indexOf(page), true)
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for switching the active tab
+ */
+export class SwitchTabTool extends TabToolBase {
+  /**
+   * Execute the switch tab tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withTabs(context, async (tabs) => {
+      const page = await tabs.select(args.index);
+      return createSuccessResponse([
+        `Switched to tab ${args.index}`,
+        await describeTab(page, args.index, true)
+      ]);
+    });
+  }
+}
+
+/**
+ * Tool for closing a tab
+ */
+export class CloseTabTool extends TabToolBase {
+  /**
+   * Execute the close tab tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withTabs(context, async (tabs) => {
+      const { activeIndex } = tabs.list();
+      const index = args.index ?? activeIndex;
+      await tabs.close(index);
+
+      const { pages, activeIndex: newActiveIndex } = tabs.list();
+      const messages = [`Closed tab ${index}`];
+      if (pages.length > 0) {
+        messages.push(`Active tab: ${await describeTab(pages[newActiveIndex], newActiveIndex, true)}`);
+      } else {
+        messages.push("No tabs left open; the next browser action opens a new one");
+      }
+      return createSuccessResponse(messages);
+    });
+  }
+}
+
+/**
+ * Tool for waiting for a popup opened by the previous action, such as a
+ * window.open call or a target=_blank link
+ */
+export class WaitForPopupTool extends TabToolBase {
+  /**
+   * Execute the wait for popup tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    return this.withTabs(context, async (tabs) => {
+      const activate = args.switchTo ?? true;
+      const popup = await tabs.waitForPopup(args.timeout || 30000, activate);
+
+      const { pages } = tabs.list();
+      return createSuccessResponse([
+        activate ? `Popup opened and is now the active tab` : `Popup opened`,
+        await describeTab(popup, pages.indexOf(popup), activate)
+      ]);
+    });
+  }
+}
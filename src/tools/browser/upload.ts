@@ -0,0 +1,105 @@
+import fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+import { describeTarget, resolveTarget } from './locators.js';
+
+interface FileContent {
+  name: string;
+  mimeType?: string;
+  base64: string;
+}
+
+/**
+ * Tool for setting the files of a file input, from the upload directory or
+ * from content supplied with the call
+ */
+export class UploadFileTool extends BrowserToolBase {
+  private uploadDir?: string;
+
+  constructor(server: any, uploadDir?: string) {
+    super(server);
+    this.uploadDir = uploadDir;
+  }
+
+  /**
+   * Execute the upload file tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const files: string[] = args.files ?? [];
+    const contents: FileContent[] = args.contents ?? [];
+
+    if (!args.selector && !args.ref) {
+      return createErrorResponse("Missing required parameter: selector or ref must be provided");
+    }
+    if (files.length === 0 && contents.length === 0) {
+      return createErrorResponse("Provide files from the upload directory or contents to upload");
+    }
+    // Playwright takes either file paths or in-memory files, not a mix
+    if (files.length > 0 && contents.length > 0) {
+      return createErrorResponse("Provide either files or contents, not both");
+    }
+    if (files.length > 0 && !this.uploadDir) {
+      return createErrorResponse("Uploading local files is disabled. Set uploadDir to allow files from a directory, or pass contents");
+    }
+
+    let paths: string[];
+    try {
+      paths = await Promise.all(files.map((file) => this.resolveUpload(file)));
+    } catch (error) {
+      return createErrorResponse((error as Error).message);
+    }
+
+    const payloads = contents.map((content) => ({
+      name: content.name,
+      mimeType: content.mimeType || 'application/octet-stream',
+      buffer: Buffer.from(content.base64, 'base64')
+    }));
+    if (payloads.some((payload) => !payload.name)) {
+      return createErrorResponse("Every entry of contents needs a name");
+    }
+
+    return this.safeExecute(context, async (page) => {
+      const inputFiles = paths.length > 0 ? paths : payloads;
+      const target = await resolveTarget(page, { ref: args.ref });
+      if (target) {
+        await target.setInputFiles(inputFiles);
+      } else {
+        await page.setInputFiles(args.selector, inputFiles);
+      }
+
+      const names = paths.length > 0
+        ? paths.map((file) => path.basename(file))
+        : payloads.map((payload) => `${payload.name} (${payload.buffer.length} bytes)`);
+      return createSuccessResponse([
+        `Set ${names.length} file${names.length === 1 ? '' : 's'} on ${describeTarget(args)}:`,
+        ...names
+      ]);
+    });
+  }
+
+  /**
+   * Resolves a file relative to the upload directory, refusing anything that
+   * lies outside of it, symbolic links included
+   */
+  private async resolveUpload(file: string): Promise<string> {
+    const root = await fs.realpath(this.uploadDir);
+
+    let resolved: string;
+    try {
+      resolved = await fs.realpath(path.resolve(root, file));
+    } catch {
+      throw new Error(`File not found in the upload directory: ${file}`);
+    }
+
+    const relative = path.relative(root, resolved);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`File is outside the upload directory: ${file}`);
+    }
+    if (!(await fs.stat(resolved)).isFile()) {
+      throw new Error(`Not a file: ${file}`);
+    }
+
+    return resolved;
+  }
+}
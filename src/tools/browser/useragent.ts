@@ -1,13 +1,44 @@
+import type { Page } from 'playwright';
 import { BrowserToolBase } from './base.js';
 import type { ToolContext, ToolResponse } from '../common/types.js';
 import { createSuccessResponse, createErrorResponse } from '../common/types.js';
 
 interface CustomUserAgentArgs {
   userAgent: string;
+  preserveStorage?: boolean;
+  preserveUrl?: boolean;
 }
 
 /**
- * Tool for validating custom User Agent settings
+ * Reads the user agent string and, where the browser supports them, the
+ * low entropy client hints a page sees
+ */
+async function describeUserAgent(page: Page): Promise<string[]> {
+  const { userAgent, clientHints } = await page.evaluate(() => {
+    const data = (navigator as any).userAgentData;
+    return {
+      userAgent: navigator.userAgent,
+      clientHints: data
+        ? {
+            brands: data.brands.map((brand: { brand: string; version: string }) => `${brand.brand} ${brand.version}`),
+            mobile: data.mobile,
+            platform: data.platform
+          }
+        : null
+    };
+  });
+
+  return [
+    `Effective user agent: ${userAgent}`,
+    clientHints
+      ? `Client hints: brands ${clientHints.brands.join(', ') || '(none)'}; mobile ${clientHints.mobile}; platform ${clientHints.platform || '(none)'}`
+      : 'Client hints: not supported by this browser'
+  ];
+}
+
+/**
+ * Tool for setting a custom User Agent. A context's user agent is fixed when
+ * it is created, so the active context is recreated with the new one.
  */
 export class CustomUserAgentTool extends BrowserToolBase {
   /**
@@ -19,22 +50,32 @@ export class CustomUserAgentTool extends BrowserToolBase {
         return createErrorResponse("Missing required parameter: userAgent must be provided");
       }
 
-      try {
-        const currentUserAgent = await page.evaluate(() => navigator.userAgent);
-        
-        if (currentUserAgent !== args.userAgent) {
-          const messages = [
-            "Page was already initialized with a different User Agent.",
-            `Requested: ${args.userAgent}`,
-            `Current: ${currentUserAgent}`
-          ];
-          return createErrorResponse(messages.join('\n'));
-        }
-
-        return createSuccessResponse("User Agent validation successful");
-      } catch (error) {
-        return createErrorResponse(`Failed to validate User Agent: ${(error as Error).message}`);
+      const currentUserAgent = await page.evaluate(() => navigator.userAgent);
+      if (currentUserAgent === args.userAgent) {
+        return createSuccessResponse([
+          "User Agent already set",
+          ...await describeUserAgent(page)
+        ]);
       }
+
+      if (!context.contexts) {
+        return createErrorResponse("Context management is not available");
+      }
+
+      const preserveStorage = args.preserveStorage ?? true;
+      const preserveUrl = args.preserveUrl ?? true;
+      const named = await context.contexts.recreate(
+        { userAgent: args.userAgent },
+        { preserveStorage, preserveUrl }
+      );
+      const newPage = named.context.pages()[0];
+
+      return createSuccessResponse([
+        `Recreated context "${named.name}" with the new User Agent` +
+          (preserveStorage ? ', keeping its cookies and storage' : ''),
+        ...(preserveUrl ? [`Reopened ${newPage.url()}`] : []),
+        ...await describeUserAgent(newPage)
+      ]);
     });
   }
-} 
\ No newline at end of file
+}
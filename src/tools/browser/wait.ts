@@ -0,0 +1,110 @@
+import type { Page } from 'playwright';
+import { BrowserToolBase } from './base.js';
+import { ToolContext, ToolResponse, createSuccessResponse, createErrorResponse } from '../common/types.js';
+
+// Things the wait tool can wait for; exactly one per call
+const CONDITIONS = ['selector', 'url', 'urlRegex', 'loadState', 'text', 'function', 'time'] as const;
+const SELECTOR_STATES = ['attached', 'detached', 'visible', 'hidden'] as const;
+const LOAD_STATES = ['load', 'domcontentloaded', 'networkidle'] as const;
+
+const DEFAULT_TIMEOUT = 30000;
+
+type SelectorState = typeof SELECTOR_STATES[number];
+type LoadState = typeof LOAD_STATES[number];
+
+/**
+ * Describes what a wait is for, e.g. `#spinner to be hidden`
+ */
+function describeCondition(args: any): string {
+  if (args.selector) return `${args.selector} to be ${args.state ?? 'visible'}`;
+  if (args.url) return `URL to match ${args.url}`;
+  if (args.urlRegex) return `URL to match /${args.urlRegex}/`;
+  if (args.loadState) return `load state ${args.loadState}`;
+  if (args.text) return `text "${args.text}" to appear`;
+  if (args.function) return `function to return a truthy value: ${args.function}`;
+  return `${args.time}ms`;
+}
+
+/**
+ * Tool for waiting until an element, URL, load state, text or script
+ * condition holds, or for a fixed time
+ */
+export class WaitForTool extends BrowserToolBase {
+  /**
+   * Execute the wait for tool
+   */
+  async execute(args: any, context: ToolContext): Promise<ToolResponse> {
+    const given = CONDITIONS.filter((condition) => args[condition] !== undefined && args[condition] !== '');
+    if (given.length !== 1) {
+      return createErrorResponse(
+        given.length === 0
+          ? `Provide one of ${CONDITIONS.join(', ')} to wait for`
+          : `Wait for one condition at a time, not ${given.join(' and ')}`
+      );
+    }
+    if (args.state && !args.selector) {
+      return createErrorResponse("state applies to selector waits only");
+    }
+    if (args.state && !SELECTOR_STATES.includes(args.state)) {
+      return createErrorResponse(`state must be one of ${SELECTOR_STATES.join(', ')}`);
+    }
+    if (args.loadState && !LOAD_STATES.includes(args.loadState)) {
+      return createErrorResponse(`loadState must be one of ${LOAD_STATES.join(', ')}`);
+    }
+    if (args.time !== undefined && !(args.time >= 0)) {
+      return createErrorResponse("time must be a non-negative number of milliseconds");
+    }
+
+    let urlRegex: RegExp | undefined;
+    if (args.urlRegex) {
+      try {
+        urlRegex = new RegExp(args.urlRegex);
+      } catch (error) {
+        return createErrorResponse(`Invalid urlRegex: ${(error as Error).message}`);
+      }
+    }
+
+    const timeout = args.timeout ?? DEFAULT_TIMEOUT;
+    const description = describeCondition(args);
+
+    return this.safeExecute(context, async (page) => {
+      const started = Date.now();
+      try {
+        await this.waitFor(page, args, urlRegex, timeout);
+      } catch (error) {
+        if ((error as Error).name === 'TimeoutError') {
+          return createErrorResponse(`Timed out after ${timeout}ms waiting for ${description}`);
+        }
+        throw error;
+      }
+
+      const elapsed = Date.now() - started;
+      if (args.time !== undefined) {
+        return createSuccessResponse(`Waited ${description}`);
+      }
+      return createSuccessResponse([
+        `Waited ${elapsed}ms for ${description}`,
+        ...(args.url || args.urlRegex ? [`Current URL: ${page.url()}`] : [])
+      ]);
+    });
+  }
+
+  /**
+   * Waits for the single condition given in args
+   */
+  private async waitFor(page: Page, args: any, urlRegex: RegExp | undefined, timeout: number): Promise<void> {
+    if (args.selector) {
+      await page.waitForSelector(args.selector, { state: (args.state ?? 'visible') as SelectorState, timeout });
+    } else if (args.url || urlRegex) {
+      await page.waitForURL(urlRegex ?? args.url, { timeout });
+    } else if (args.loadState) {
+      await page.waitForLoadState(args.loadState as LoadState, { timeout });
+    } else if (args.text) {
+      await page.getByText(args.text).first().waitFor({ state: 'visible', timeout });
+    } else if (args.function) {
+      await page.waitForFunction(args.function, undefined, { timeout });
+    } else {
+      await page.waitForTimeout(args.time);
+    }
+  }
+}
@@ -1,5 +1,27 @@
 import type { CallToolResult, TextContent, ImageContent } from '@modelcontextprotocol/sdk/types.js';
 import type { Page, Browser, APIRequestContext } from 'playwright';
+import type { ContextSettings, NamedContext } from '../../sessionManager.js';
+
+// Tab operations on the session's browser, bound to the calling session
+export interface TabManager {
+  list(): { pages: Page[]; activeIndex: number };
+  open(): Promise<Page>;
+  select(index: number): Promise<Page>;
+  close(index?: number): Promise<void>;
+  waitForPopup(timeout: number, activate: boolean): Promise<Page>;
+}
+
+// Named browser context operations, bound to the calling session
+export interface ContextManager {
+  list(): { contexts: (NamedContext & { tabCount: number })[]; active?: string };
+  create(name: string, settings: ContextSettings): Promise<NamedContext>;
+  switch(name: string): Promise<NamedContext>;
+  dispose(name: string): Promise<void>;
+  recreate(
+    changes: ContextSettings,
+    options: { preserveStorage?: boolean; preserveUrl?: boolean }
+  ): Promise<NamedContext>;
+}
 
 // Context for tool execution
 export interface ToolContext {
@@ -7,6 +29,12 @@ export interface ToolContext {
   browser?: Browser;
   apiContext?: APIRequestContext;
   server?: any;
+  // Drops the session's browser so the next call launches a fresh one
+  resetBrowserState?: () => void;
+  tabs?: TabManager;
+  contexts?: ContextManager;
+  // Set when the session's browser was connected to rather than launched
+  connectedBrowser?: boolean;
 }
 
 // Standard response format for all tools
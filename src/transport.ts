@@ -0,0 +1,12 @@
+export const TRANSPORT_TYPES = ["stdio", "http"] as const;
+
+export type TransportType = (typeof TRANSPORT_TYPES)[number];
+
+/**
+ * Sends every console channel to stderr so stdout only carries JSON-RPC
+ */
+export function routeLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}